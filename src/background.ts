@@ -1,25 +1,53 @@
 // for API calls and timers
 
 // WriteTank — Background Service Worker (MV3)
-// - Stores settings (endpoint, model, interval, paused)
+// - Stores settings (provider, endpoint, model, interval, paused)
 // - Handles Q&A and Auto-coach requests
-// - Talks to Ollama API from the background (avoids CORS)
-// - Triggers periodic "coach" runs via chrome.alarms
-
-type Settings = {
-    endpoint: string; // e.g. http://localhost:11434
-    model: string;    // e.g. gpt-oss:20b
-    intervalMin: number; // 5–15 sensible range
-    paused: boolean;
-  };
-  
-  const DEFAULTS: Settings = {
-    endpoint: 'http://localhost:11434',
-    model: 'gpt-oss:20b',
-    intervalMin: 5,
-    paused: true, // user opts in
-  };
-  
+// - Talks to the model provider (Ollama or OpenAI-compatible) from the background (avoids CORS)
+// - Auto-coach: on edit (the panel sends the changed paragraphs), on a chrome.alarms interval,
+//   or manual only; text that was already coached is skipped
+// - Answers panels and the popup over typed RPC ports (messages.ts), streaming to the asking tab
+// - Context-menu entries and keyboard shortcuts, forwarded to the tab's panel as commands
+// - Registers the panel on sites added in the options page (host permission granted at runtime)
+
+import { allocateBudget, contextWindow, estimateTokens, fitTokens, type BudgetPart } from './budget.ts';
+import { DEFAULTS, modelFor, withDefaults, type ModelTask, type Settings } from './settings.ts';
+import { BUILTIN_SITE, originPattern, siteFor, sitePatterns } from './sites.ts';
+import { createProvider, type ChatMessage, type PullProgress } from './providers.ts';
+import { PRIORITY, createJobQueue, isAbortError } from './jobs.ts';
+import {
+  PORT_NAME,
+  type BackgroundMethods, type CoachDelta, type CoachResult, type ContentMethods, type PanelCommand, type PushStreams, type RpcWake,
+} from './messages.ts';
+import { createPeer, type Handlers, type Peer } from './rpc.ts';
+import { splitLatexChunks } from './chunking.ts';
+import { checkLatex } from './latex-check.ts';
+import { checkReferences } from './refcheck.ts';
+import { styleHints } from './style-lint.ts';
+import { analyzeTerms, termSheetKey, termSheetPrompt, type TermSheet } from './terminology.ts';
+import { renderTemplate, type PromptVariable } from './prompts.ts';
+import { COACH_REPORT_SCHEMA, checkAnchors, mergeReports, parseCoachReport, reportToLatex, type AnchorRange, type CoachReport } from './coach-findings.ts';
+import { MAX_COACH_RUNS, coachHistoryKey, createCoachRun, type CoachRun, type CoachScope } from './coach-history.ts';
+import { outlineStateKey, parseOutline, sectionText, type OutlineEntry, type SectionState } from './outline.ts';
+import {
+  bibIndexKey, citationReport, parseBibtex, rankReferences, referencesPrompt,
+  type BibEntry, type BibIndex, type CitationReport,
+} from './bibtex.ts';
+import {
+  newThreadId, threadHistory, threadsKey, titleFromQuestion,
+  type QaThread,
+} from './threads.ts';
+import {
+  MIN_PARAGRAPH_CHARS, compactVector, sectionTitleAt, topK, vectorIndexKey,
+  type RetrievedSource, type VectorIndex, type VectorItem,
+} from './retrieval.ts';
+import {
+  findProjectExcerpts, isIndexablePath, paragraphs, projectFilesKey, projectIdFromUrl, projectOutline, simpleHash, tokenize,
+  type DocRef, type ProjectFile,
+} from './project.ts';
+// The panel's loader for added sites (see site-panel.ts)
+import panelLoader from './site-panel.ts?script';
+
   // --- System prompt (short = faster, stricter)
   const SYSTEM_PROMPT = `
   You are WriteTank, a local LaTeX writing assistant.
@@ -32,7 +60,8 @@ type Settings = {
   - CRITICAL: If an answer starts with \\begin{itemize}, it MUST end with \\end{itemize}.
   - CRITICAL: All LaTeX environments must be properly closed.
   - CRITICAL: Always verify that every \\begin{...} has a corresponding \\end{...}.
-  - Use \\cite{TODO} / \\ref{TODO} placeholders when needed.
+  - Cite only keys from "Available references" when given; otherwise use \\cite{TODO}. Never invent citation keys.
+  - Use \\ref{TODO} placeholders when needed.
   `.trim();
   
   // --- User prompts
@@ -54,47 +83,75 @@ type Settings = {
   - Ensure all LaTeX syntax is complete and valid.
   `.trim();
   
-  function COACH_PROMPT(snippet: string): string {
+  // Follow-up turn in a thread: earlier turns already carry the context
+  const QA_FOLLOWUP_PROMPT = (question: string) => `
+  Follow-up:
+  ${question}
+  
+  Apply this to your previous answer. Keep the same LaTeX rules; answer concisely.
+  `.trim();
+  
+  // Rule-based style findings for a snippet, so the model builds on them instead of guessing
+  function lintHints(hints: string): string {
+    return hints ? `
+  Style checker findings (rule-based and reliable; fold the important ones into your suggestions, do not list them all):
+  ${hints}
+  ` : '';
+  }
+
+  // The JSON reply both coach prompts ask for (the schema itself goes along as the output format)
+  const COACH_JSON_FIELDS = `
+  Reply with JSON only:
+  {"summary": "…", "findings": [{"category": "…", "severity": "…", "message": "…", "fix": "…", "anchor": "…"}]}
+  - category: structure, clarity, flow, concision, grammar, citation, reference or terminology
+  - severity: "high" (hurts understanding or correctness), "medium", or "low" (polish)
+  - fix: replacement for the anchor words, short wording or LaTeX (\\cite with a key from the references, else \\cite{TODO}; \\label/\\ref); omit unless the advice is a local edit there
+  - anchor: 3–12 consecutive words copied exactly from the snippet, marking where the issue is`;
+
+  function COACH_PROMPT(snippet: string, projectMap = '', references = '', hints = ''): string {
+    const project = projectMap ? `
+  Other files in this project (mention them when relevant, e.g. a term defined in another chapter):
+  ${projectMap}
+  ` : '';
+    const refs = references ? `
+  Available references (key — title); suggest these keys for claims that need a citation:
+  ${references}
+  ` : '';
     return `
-  You are a concise writing coach. Do NOT rewrite the text. Do NOT output full sentences of the user's content. Provide guidance and actionable suggestions only.
+  You are a concise writing coach. Do NOT rewrite the text. Provide guidance and actionable suggestions only.
   
-  Snippet (context for coaching; do not quote it back):
+  Snippet:
   ${snippet}
-  
-  Return exactly, using LaTeX where indicated:
-  1) \\paragraph{Structure} One-sentence assessment of organization (no rewriting).
-  2) \\begin{itemize}
-     \\item 3–4 actionable improvement suggestions (clarity, flow, redundancy, active voice, cohesion)
-     \\item Mention where to add \\label/\\ref/\\cite as TODO if missing
-     \\item Suggest section-level moves (e.g., "define key term earlier", "split long paragraph")
-  \\end{itemize}
-  3) \\paragraph{Checklist} 3–4 yes/no checks (e.g., "All acronyms defined on first use?")
+  ${project}${refs}${lintHints(hints)}
+  ${COACH_JSON_FIELDS}
+  - summary: a one-sentence assessment of the snippet's organization
+  - message: the issue and what to do about it, in one sentence
   
   Constraints:
-  - Do not reproduce or paraphrase user sentences.
-  - No full rewrites. Keep feedback high-signal and brief (≤8–10 lines total).
-  - If the snippet already reads clearly, is well-organized, and requires no edits,
-    then explicitly say so and provide positive confirmation instead of forcing issues.
-    In that case, still return the three sections above, where the itemized list
-    contains 1–2 lightweight polish suggestions or "No changes needed" entries,
-    and the checklist answers mostly "Yes" where appropriate.
+  - 3–6 findings, most important first: clarity, flow, redundancy, active voice, cohesion, missing \\label/\\ref/\\cite, section-level moves ("define key term earlier", "split long paragraph").
+  - Do not reproduce or paraphrase user sentences outside "anchor". No full rewrites.
+  - If the snippet already reads clearly and needs no edits, say so in the summary and return at most 2 "low" findings.
   `.trim();
   }
 
-  function COACH_PROMPT_EXPAND(snippet: string): string {
+  function COACH_PROMPT_EXPAND(snippet: string, references = '', hints = ''): string {
+    const refs = references ? `
+  Available references (key — title); suggest these keys for claims that need a citation:
+  ${references}
+  ` : '';
     return `
-  You are a detailed writing coach. Produce a comprehensive LaTeX paragraph that thoroughly addresses the main issues found in the snippet. Do NOT quote or reuse the user's sentences verbatim; write generalized guidance phrased as a paragraph, not a list.
+  You are a detailed writing coach. Do NOT rewrite the text; give specific, actionable feedback.
   
   Snippet:
   ${snippet}
+  ${refs}${lintHints(hints)}
+  ${COACH_JSON_FIELDS}
+  - summary: two or three sentences on the main issues and the overall direction
+  - message: the issue, its rationale and a concrete next step, in two or three sentences
   
-  Output:
-  - One comprehensive LaTeX paragraph capturing detailed suggested improvements and rationale.
-  - Use TODO notes for missing \\label/\\ref/\\cite.
-  - No bullets, no extra sections.
-  - Do not stop in the middle of a sentence, make sure every sentence is complete.
-  - Provide thorough analysis with specific, actionable feedback.
-  - Always give a more detailed analysis, do not just repeat saying "well done" or "keep going".
+  Constraints:
+  - 5–10 findings covering the snippet from start to end, most important first.
+  - Do not just say "well done" or "keep going"; every finding names something to change.
   `.trim();
   }
 
@@ -112,480 +169,1204 @@ type Settings = {
   `.trim();
 
   // --- Summary cache utilities
-  function simpleHash(s: string): string {
-    let h = 0; for (let i = 0; i < s.length; i++) { h = ((h << 5) - h) + s.charCodeAt(i); h |= 0; }
-    return String(h >>> 0);
+  // Summaries are stored per project and keyed by "<file path>#<section hash>",
+  // so Q&A can draw on sections from other files of the same project.
+  // Outline summaries use "<file path>#<section id>" and remember the hash they were made from.
+  async function getDocRef(hint?: Partial<DocRef>): Promise<DocRef> {
+    if (hint?.projectId && hint.path) return { projectId: hint.projectId, path: hint.path };
+    const tab = await getActiveEditorTab();
+    return { projectId: tab?.url ? projectIdFromUrl(tab.url) : 'unknown', path: hint?.path || 'unknown' };
   }
-  async function getDocId(): Promise<string> {
-    const tab = await getActiveOverleafTab();
-    return tab?.url ? simpleHash(tab.url) : 'unknown';
-  }
-  type SummaryEntry = { sectionKey: string; text: string; updatedAt: number };
-  async function loadSummaries(docId: string): Promise<Record<string, SummaryEntry>> {
-    const k = `wt:summaries:${docId}`;
+  type SummaryEntry = {
+    sectionKey: string; path: string; text: string; updatedAt: number;
+    section?: { title: string; hash: string }; // set for summaries made from the Outline tab
+  };
+  async function loadSummaries(projectId: string): Promise<Record<string, SummaryEntry>> {
+    const k = `wt:summaries:${projectId}`;
     const obj = await chrome.storage.local.get(k);
     return obj?.[k] || {};
   }
-  function pickBestSummary(provided: string, summaries: Record<string, SummaryEntry>): SummaryEntry | undefined {
+  function pickBestSummary(provided: string, summaries: Record<string, SummaryEntry>, path?: string): SummaryEntry | undefined {
     const entries = Object.values(summaries);
     if (entries.length === 0) return undefined;
-    const tokenize = (s: string) => new Set((s.toLowerCase().match(/[a-z0-9]{3,}/g) || []));
     const sel = tokenize(provided);
-    // If no selection text, return most recent
-    if (sel.size === 0) return entries.sort((a,b) => b.updatedAt - a.updatedAt)[0];
+    // If no selection text, return most recent (preferring the current file)
+    const recent = () => entries.sort((a,b) => (Number(b.path === path) - Number(a.path === path)) || (b.updatedAt - a.updatedAt))[0];
+    if (sel.size === 0) return recent();
     let best: SummaryEntry | undefined; let bestScore = -1;
     for (const e of entries) {
       const t = tokenize(e.text);
-      let score = 0;
+      let score = e.path === path ? 0.5 : 0; // tie-break towards the current file
       for (const w of sel) if (t.has(w)) score++;
       if (score > bestScore) { bestScore = score; best = e; }
     }
-    return best || entries.sort((a,b) => b.updatedAt - a.updatedAt)[0];
+    return best || recent();
   }
-  async function saveSummaries(docId: string, summaries: Record<string, SummaryEntry>) {
-    const k = `wt:summaries:${docId}`;
+  async function saveSummaries(projectId: string, summaries: Record<string, SummaryEntry>) {
+    const k = `wt:summaries:${projectId}`;
     await chrome.storage.local.set({ [k]: summaries });
   }
-  async function maybeUpdateSummary(sampleText: string) {
-    const docId = await getDocId();
-    const sectionKey = simpleHash(sampleText.slice(0, 800));
-    const summaries = await loadSummaries(docId);
+  let outlineQueue: Promise<unknown> = Promise.resolve();
+
+  // Summaries and section states are written in turn: section summaries, automatic ones and
+  // finished coach runs can land at the same time
+  function queueOutlineWrite<T>(task: () => Promise<T>): Promise<T> {
+    const next = outlineQueue.then(task);
+    outlineQueue = next.catch(() => {});
+    return next;
+  }
+  function updateSummaries(projectId: string, change: (summaries: Record<string, SummaryEntry>) => void) {
+    return queueOutlineWrite(async () => {
+      const summaries = await loadSummaries(projectId);
+      change(summaries);
+      await saveSummaries(projectId, summaries);
+      return summaries;
+    });
+  }
+  const SUMMARIZER_SYSTEM = 'You are a helpful summarizer.';
+  // The start of `text` that fits the summarizer's window next to the prompt and the summary itself
+  async function fitForSummary(text: string, numPredict: number) {
+    const room = await contextFor('summarize') - numPredict - estimateTokens(SUMMARIZER_SYSTEM) - estimateTokens(SUMMARIZE_PROMPT(''));
+    return fitTokens(text, Math.max(0, room));
+  }
+  async function maybeUpdateSummary(sampleText: string, doc: DocRef, tabId?: number) {
+    const sectionKey = `${doc.path}#${simpleHash(sampleText.slice(0, 800))}`;
+    const summaries = await loadSummaries(doc.projectId);
     if (summaries[sectionKey]?.text) return; // already cached
-    // Summarize with low predict for speed
-    const summary = await ollamaChat({
-      system: "You are a helpful summarizer.",
-      user: SUMMARIZE_PROMPT(sampleText),
-      numPredict: 120,
-      numCtx: 1536,
+    // Summarize with low predict for speed; lowest priority, and any user request preempts it
+    const summary = await jobs.enqueue({
+      kind: 'summary',
+      priority: PRIORITY.background,
+      key: `summary:${doc.projectId}:${sectionKey}`,
+      preemptible: true,
+      run: async signal => modelChat({
+        system: SUMMARIZER_SYSTEM,
+        user: SUMMARIZE_PROMPT(await fitForSummary(sampleText, 120)),
+        numPredict: 120,
+        signal,
+        task: 'summarize',
+      }),
     }).catch(() => '');
     if (summary && summary.trim()) {
-      summaries[sectionKey] = { sectionKey, text: summary.trim(), updatedAt: Date.now() };
-      // Cap entries per doc (keep most recent 12)
-      const maxEntries = 12;
-      const entries = Object.values(summaries).sort((a,b) => b.updatedAt - a.updatedAt);
-      if (entries.length > maxEntries) {
-        const keepSet = new Set(entries.slice(0, maxEntries).map(e => e.sectionKey));
-        for (const key of Object.keys(summaries)) {
-          if (!keepSet.has(key)) delete summaries[key];
+      const saved = await updateSummaries(doc.projectId, summaries => {
+        summaries[sectionKey] = { sectionKey, path: doc.path, text: summary.trim(), updatedAt: Date.now() };
+        // Cap automatic entries per file (keep most recent 12); outline summaries are kept per section
+        const maxEntries = 12;
+        const entries = Object.values(summaries).filter(e => e.path === doc.path && !e.section).sort((a,b) => b.updatedAt - a.updatedAt);
+        if (entries.length > maxEntries) {
+          for (const e of entries.slice(maxEntries)) delete summaries[e.sectionKey];
         }
-      }
-      await saveSummaries(docId, summaries);
-      // Best-effort notify active tab
-      const tab = await getActiveOverleafTab();
-      if (tab?.id) {
-        await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: 'Summary cached' }).catch(() => {});
-      }
+      });
+      queueIndexing(() => indexSummaries(doc.projectId, saved));
+      // Best-effort notify the tab the text came from
+      if (tabId) (await tabPeer(tabId))?.open('notice').done('Summary cached');
     }
   }
   
-  // --- Utilities
-  
-  // Trim trailing partial sentence; keep up to last terminal punctuation
-  function ensureCompleteSentences(text: string): string {
-    if (!text) return text;
-    const terminals = ['.', '!', '?'];
-    let last = -1;
-    for (const t of terminals) {
-      const idx = text.lastIndexOf(t);
-      if (idx > last) last = idx;
+  // --- Coach history (per document, newest first)
+  async function loadCoachHistory(doc: DocRef): Promise<CoachRun[]> {
+    const k = coachHistoryKey(doc);
+    const obj = await chrome.storage.local.get(k);
+    return obj?.[k] || [];
+  }
+  let coachHistoryQueue: Promise<unknown> = Promise.resolve();
+
+  // The one writer of coach history: recorded runs and suggestion marks go through it in turn
+  function updateCoachHistory(doc: DocRef, change: (history: CoachRun[]) => CoachRun[]): Promise<CoachRun[]> {
+    const next = coachHistoryQueue.then(async () => {
+      const history = change(await loadCoachHistory(doc));
+      await chrome.storage.local.set({ [coachHistoryKey(doc)]: history });
+      return history;
+    });
+    coachHistoryQueue = next.catch(() => {});
+    return next;
+  }
+  async function recordCoachRun(doc: DocRef, scope: CoachScope, snippet: string, res: { text: string; report?: CoachReport; region?: AnchorRange }) {
+    if (!res.text.trim()) return;
+    await updateCoachHistory(doc, history => {
+      const run = createCoachRun({ scope, path: doc.path, snippet, report: res.text, findings: res.report, region: res.region }, history);
+      return [run, ...history].slice(0, MAX_COACH_RUNS);
+    });
+  }
+  // Auto-coach skips text it has already coached (same hash as any kept run)
+  async function alreadyCoached(doc: DocRef, text: string): Promise<boolean> {
+    const hash = simpleHash(text);
+    return (await loadCoachHistory(doc)).some(r => r.snippetHash === hash);
+  }
+
+  // --- Terminology style sheet (canonical forms chosen in the Checks tab, per project)
+  async function loadTermSheet(projectId: string): Promise<TermSheet> {
+    const k = termSheetKey(projectId);
+    const obj = await chrome.storage.local.get(k);
+    return obj?.[k] || {};
+  }
+  let termSheetQueue: Promise<unknown> = Promise.resolve();
+
+  // Serialize term sheet writes so quick edits in the Terms list do not undo each other
+  function updateTermSheet(projectId: string, change: (sheet: TermSheet) => void): Promise<void> {
+    const next = termSheetQueue.then(async () => {
+      const sheet = await loadTermSheet(projectId);
+      change(sheet);
+      await chrome.storage.local.set({ [termSheetKey(projectId)]: sheet });
+    });
+    termSheetQueue = next.catch(() => {});
+    return next;
+  }
+  // The system prompt plus the project's preferred terms, for answers and coach reports
+  async function systemPromptFor(projectId: string): Promise<string> {
+    const terms = termSheetPrompt(await loadTermSheet(projectId).catch(() => ({})));
+    return terms ? `${SYSTEM_PROMPT}\n${terms}` : SYSTEM_PROMPT;
+  }
+  // The open file's live text plus the other captured .tex files of the project
+  async function checkedFiles(doc: DocRef, text: string) {
+    const others = Object.values(await loadProjectFiles(doc.projectId))
+      .filter(f => f.path !== doc.path && /\.tex$/i.test(f.path))
+      .map(f => ({ path: f.path, text: f.text }));
+    return [{ path: doc.path, text }, ...others];
+  }
+
+  // --- Outline (per-section summaries and last-coached times)
+  async function loadSectionStates(projectId: string): Promise<Record<string, SectionState>> {
+    const k = outlineStateKey(projectId);
+    const obj = await chrome.storage.local.get(k);
+    return obj?.[k] || {};
+  }
+  // Record a finished coach run on every section whose heading was in the coached text
+  async function markCoached(doc: DocRef, text: string) {
+    const sections = parseOutline(text);
+    if (!sections.length) return;
+    await queueOutlineWrite(async () => {
+      const states = await loadSectionStates(doc.projectId);
+      const now = Date.now();
+      for (const s of sections) states[`${doc.path}#${s.id}`] = { ...states[`${doc.path}#${s.id}`], coachedAt: now };
+      await chrome.storage.local.set({ [outlineStateKey(doc.projectId)]: states });
+    });
+  }
+  async function outlineEntries(doc: DocRef, text: string): Promise<OutlineEntry[]> {
+    const [summaries, states] = await Promise.all([loadSummaries(doc.projectId), loadSectionStates(doc.projectId)]);
+    return parseOutline(text).map(s => {
+      const key = `${doc.path}#${s.id}`;
+      const summary = summaries[key];
+      return {
+        ...s,
+        summary: summary?.text,
+        summarizedAt: summary?.updatedAt,
+        stale: !!summary && summary.section?.hash !== s.hash,
+        coachedAt: states[key]?.coachedAt,
+      };
+    });
+  }
+  async function summarizeSection(doc: DocRef, text: string, sectionId: string, tabId?: number) {
+    const section = parseOutline(text).find(s => s.id === sectionId);
+    if (!section) throw new Error('Section not found; refresh the outline');
+    const sectionKey = `${doc.path}#${section.id}`;
+    const summary = await jobs.enqueue({
+      kind: 'summary',
+      priority: PRIORITY.manual,
+      key: `summary:${doc.projectId}:${sectionKey}`,
+      tabId,
+      run: async signal => modelChat({
+        system: SUMMARIZER_SYSTEM,
+        user: SUMMARIZE_PROMPT(await fitForSummary(sectionText(text, section), 200)),
+        numPredict: 200,
+        signal,
+        task: 'summarize',
+      }),
+    });
+    if (!summary.trim()) throw new Error('Empty summary');
+    const summaries = await updateSummaries(doc.projectId, summaries => {
+      summaries[sectionKey] = {
+        sectionKey, path: doc.path, text: summary.trim(), updatedAt: Date.now(),
+        section: { title: section.title, hash: section.hash },
+      };
+    });
+    queueIndexing(() => indexSummaries(doc.projectId, summaries));
+  }
+
+  // --- Project file index (.tex/.bib contents captured by the content script)
+  async function loadProjectFiles(projectId: string): Promise<Record<string, ProjectFile>> {
+    const k = projectFilesKey(projectId);
+    const obj = await chrome.storage.local.get(k);
+    return obj?.[k] || {};
+  }
+  const fileCaptures = new Map<string, Promise<unknown>>();
+
+  // Serialized per project: the capture timer, a zip import and other tabs can send files at once
+  function captureProjectFiles(projectId: string, files: { path: string; text: string }[], source: ProjectFile['source']) {
+    const next = (fileCaptures.get(projectId) ?? Promise.resolve()).then(() => storeProjectFiles(projectId, files, source));
+    fileCaptures.set(projectId, next.catch(() => {}));
+    return next;
+  }
+  async function storeProjectFiles(projectId: string, files: { path: string; text: string }[], source: ProjectFile['source']) {
+    const index = await loadProjectFiles(projectId);
+    const changed: ProjectFile[] = [];
+    for (const f of files) {
+      if (!isIndexablePath(f.path)) continue;
+      const hash = simpleHash(f.text);
+      if (index[f.path]?.hash === hash) continue;
+      index[f.path] = { path: f.path, text: f.text, hash, updatedAt: Date.now(), source };
+      changed.push(index[f.path]);
+    }
+    if (changed.length) {
+      await chrome.storage.local.set({ [projectFilesKey(projectId)]: index });
+      if (changed.some(f => /\.bib$/i.test(f.path))) await saveBibIndex(projectId, Object.values(index));
+      // Embed in the background; Q&A falls back to token overlap until vectors exist
+      for (const f of changed) queueIndexing(() => indexFileParagraphs(projectId, f));
     }
-    if (last === -1) return text;
-    // Include any trailing closing quotes/brackets after terminal
-    let end = last + 1;
-    const closers = [')', ']', '}', '”', '’', '"', "'"];
-    while (end < text.length && closers.includes(text[end])) end++;
-    return text.slice(0, end).trim();
+    return { changed: changed.length, total: Object.keys(index).length };
+  }
+  // Outline of the project's other files, for the coach prompt
+  async function coachProjectMap(doc: DocRef): Promise<string> {
+    const files = Object.values(await loadProjectFiles(doc.projectId)).filter(f => f.path !== doc.path);
+    return files.length ? projectOutline(files, 400) : '';
+  }
+  // Extra Q&A context drawn from the rest of the project
+  function projectContext(query: string, files: ProjectFile[], currentPath: string): string {
+    if (files.length === 0) return '';
+    const parts = [`Project files:\n${projectOutline(files)}`];
+    const excerpts = findProjectExcerpts(query, files, { excludePath: currentPath });
+    for (const x of excerpts) parts.push(`From ${x.path} (line ${x.line}):\n${x.text}`);
+    return parts.join('\n\n');
+  }
+  
+  // --- Reference index (entries of the project's .bib files)
+  async function saveBibIndex(projectId: string, files: ProjectFile[]): Promise<BibEntry[]> {
+    const entries = files.filter(f => /\.bib$/i.test(f.path)).flatMap(f => parseBibtex(f.text, f.path));
+    await chrome.storage.local.set({ [bibIndexKey(projectId)]: { updatedAt: Date.now(), entries } satisfies BibIndex });
+    return entries;
+  }
+  async function loadBibEntries(projectId: string): Promise<BibEntry[]> {
+    const k = bibIndexKey(projectId);
+    const index: BibIndex | undefined = (await chrome.storage.local.get(k))?.[k];
+    if (index) return index.entries;
+    // .bib files captured before the index existed: build it now
+    const files = Object.values(await loadProjectFiles(projectId));
+    return files.some(f => /\.bib$/i.test(f.path)) ? saveBibIndex(projectId, files) : [];
+  }
+  // "Available references" block for a prompt: the entries closest to `query`
+  function referencesFor(query: string, entries: BibEntry[], k = 6): string {
+    return entries.length ? referencesPrompt(rankReferences(query, entries, k)) : '';
+  }
+  
+  // --- Q&A threads (per document)
+  async function loadThreads(doc: DocRef): Promise<Record<string, QaThread>> {
+    const k = threadsKey(doc);
+    const obj = await chrome.storage.local.get(k);
+    return obj?.[k] || {};
+  }
+  let threadsQueue: Promise<unknown> = Promise.resolve();
+
+  // Serialize thread writes so a Q&A turn, a rename and a delete do not clobber each other
+  function updateThreads(doc: DocRef, change: (threads: Record<string, QaThread>) => void): Promise<void> {
+    const next = threadsQueue.then(async () => {
+      const threads = await loadThreads(doc);
+      change(threads);
+      await chrome.storage.local.set({ [threadsKey(doc)]: threads });
+    });
+    threadsQueue = next.catch(() => {});
+    return next;
   }
   
-  // Ensure LaTeX environments are properly closed
-  function ensureLatexCompleteness(text: string): string {
-    if (!text) return text;
-    
-    // Check for common LaTeX environments
-    const environments = ['itemize', 'enumerate', 'description', 'equation', 'align', 'figure', 'table'];
-    let result = text;
-    let wasFixed = false;
-    
-    for (const env of environments) {
-      const openPattern = new RegExp(`\\\\begin\\{${env}\\}`, 'g');
-      const closePattern = new RegExp(`\\\\end\\{${env}\\}`, 'g');
-      
-      const openCount = (result.match(openPattern) || []).length;
-      const closeCount = (result.match(closePattern) || []).length;
-      
-      // If we have more opening tags than closing tags, add the missing ones
-      if (openCount > closeCount) {
-        const missing = openCount - closeCount;
-        result += '\n' + `\\end{${env}}`.repeat(missing);
-        wasFixed = true;
-        console.log(`WriteTank: Fixed ${missing} missing \\end{${env}} tag(s)`);
+  // --- Vector index (embeddings of summaries and paragraphs, per project)
+  const EMBED_BATCH = 16;
+  let indexQueue: Promise<unknown> = Promise.resolve();
+
+  // Serialize index writes so concurrent captures do not clobber each other
+  function queueIndexing(task: () => Promise<void>) {
+    indexQueue = indexQueue.then(task).catch((e) => console.warn('WriteTank: indexing failed', e));
+    return indexQueue;
+  }
+  async function loadVectorIndex(projectId: string, model: string): Promise<VectorIndex> {
+    const k = vectorIndexKey(projectId);
+    const obj = await chrome.storage.local.get(k);
+    const index: VectorIndex | undefined = obj?.[k];
+    return index && index.model === model ? index : { model, items: {} };
+  }
+  async function saveVectorIndex(projectId: string, index: VectorIndex) {
+    await chrome.storage.local.set({ [vectorIndexKey(projectId)]: index });
+  }
+  async function embedTexts(texts: string[]): Promise<number[][]> {
+    const provider = createProvider(await getSettings());
+    const out: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH) {
+      const vectors = await provider.embed(texts.slice(i, i + EMBED_BATCH));
+      out.push(...vectors.map(compactVector));
+    }
+    return out;
+  }
+  // Replace a file's paragraph vectors, embedding only paragraphs not seen before
+  async function indexFileParagraphs(projectId: string, file: ProjectFile) {
+    if (!/\.tex$/i.test(file.path)) return;
+    const { embedModel } = await getSettings();
+    const index = await loadVectorIndex(projectId, embedModel);
+    const fresh: VectorItem[] = paragraphs(file.text)
+      .filter(p => p.text.length >= MIN_PARAGRAPH_CHARS)
+      .map(p => ({
+        id: `para:${file.path}#${simpleHash(p.text)}`,
+        kind: 'paragraph' as const,
+        path: file.path,
+        line: p.line,
+        title: sectionTitleAt(file.text, p.line),
+        text: p.text,
+        vector: [],
+      }));
+    const keep = new Set(fresh.map(f => f.id));
+    for (const item of Object.values(index.items)) {
+      if (item.kind === 'paragraph' && item.path === file.path && !keep.has(item.id)) delete index.items[item.id];
+    }
+    const missing = fresh.filter(f => !index.items[f.id]);
+    const vectors = await embedTexts(missing.map(m => m.text));
+    missing.forEach((m, i) => { if (vectors[i]) index.items[m.id] = { ...m, vector: vectors[i] }; });
+    // Line numbers move when text above changes; refresh them on kept items
+    for (const f of fresh) if (index.items[f.id]) index.items[f.id] = { ...index.items[f.id], line: f.line, title: f.title };
+    await saveVectorIndex(projectId, index);
+  }
+  async function indexSummaries(projectId: string, summaries: Record<string, SummaryEntry>) {
+    const { embedModel } = await getSettings();
+    const index = await loadVectorIndex(projectId, embedModel);
+    for (const item of Object.values(index.items)) {
+      if (item.kind === 'summary' && !summaries[item.id.slice('summary:'.length)]) delete index.items[item.id];
+    }
+    // Re-summarized sections keep their key, so compare the text too
+    const missing = Object.values(summaries).filter(e => index.items[`summary:${e.sectionKey}`]?.text !== e.text);
+    const vectors = await embedTexts(missing.map(e => e.text));
+    missing.forEach((e, i) => {
+      if (!vectors[i]) return;
+      const id = `summary:${e.sectionKey}`;
+      const title = e.section ? `Summary: ${e.section.title}` : 'Section summary';
+      index.items[id] = { id, kind: 'summary', path: e.path, line: 0, title, text: e.text, vector: vectors[i] };
+    });
+    await saveVectorIndex(projectId, index);
+  }
+  // Rebuilds of an empty index, per project and embedding model: one at a time, stopping at the
+  // first failed embed call; after a failure (model not pulled, endpoint down) wait before retrying
+  const REBUILD_BACKOFF_MS = 10 * 60_000;
+  const indexRebuilds = new Map<string, { running: boolean; failedAt?: number }>();
+
+  function rebuildVectorIndex(projectId: string, embedModel: string) {
+    const key = `${projectId}:${embedModel}`;
+    const prev = indexRebuilds.get(key);
+    if (prev && (prev.running || prev.failedAt === undefined || Date.now() - prev.failedAt < REBUILD_BACKOFF_MS)) return;
+    const state: { running: boolean; failedAt?: number } = { running: true };
+    indexRebuilds.set(key, state);
+    queueIndexing(async () => {
+      try {
+        for (const f of Object.values(await loadProjectFiles(projectId))) await indexFileParagraphs(projectId, f);
+      } catch (e) {
+        state.failedAt = Date.now();
+        throw e;
+      } finally {
+        state.running = false;
       }
+    });
+  }
+  // Top-k summaries and paragraphs for the query, skipping text already in the selection
+  async function retrieveContext(projectId: string, query: string, selection: string, k = 4) {
+    const { embedModel } = await getSettings();
+    const index = await loadVectorIndex(projectId, embedModel);
+    if (Object.keys(index.items).length === 0) {
+      // First use (or a new embedding model): build from captured files for next time
+      rebuildVectorIndex(projectId, embedModel);
+      return [];
     }
-    
-    if (wasFixed) {
-      console.log('WriteTank: LaTeX completeness check completed - all environments now properly closed');
+    const [qv] = await embedTexts([query]);
+    if (!qv) return [];
+    return topK(index, qv, k, item => !(selection && selection.includes(item.text.slice(0, 200))));
+  }
+  
+  // Q&A context parts for the budgeter: retrieved summaries/paragraphs (or token-overlap
+  // fallback) and the selection; `sources[id]` is the retrieved item behind part `id`
+  async function qaContextParts(doc: DocRef, provided: string, question: string): Promise<{ parts: BudgetPart[]; sources: Record<string, RetrievedSource> }> {
+    const parts: BudgetPart[] = [];
+    const sources: Record<string, RetrievedSource> = {};
+    // After the retrieved text in the prompt, but filled first
+    const selection: BudgetPart[] = provided ? [{ id: 'selection', label: 'Editor text', text: `Selection:\n${provided}`, priority: 1 }] : [];
+    try {
+      // Retrieve the most relevant summaries and paragraphs across the project by embedding similarity
+      const hits = await retrieveContext(doc.projectId, `${question}\n${provided}`, provided).catch((e) => {
+        console.warn('WriteTank: retrieval unavailable, using token overlap', e);
+        return [];
+      });
+      if (hits.length) {
+        hits.forEach(({ item, score }, rank) => {
+          const where = item.kind === 'summary' ? `summary of ${item.path}` : `${item.path}, line ${item.line}${item.title ? `, ${item.title}` : ''}`;
+          const id = `retrieved:${rank}`;
+          parts.push({
+            id,
+            label: item.kind === 'summary' ? `Summary of ${item.path}` : `${item.path}:${item.line}`,
+            text: `[${where}]\n${item.text}`,
+            priority: 2 + rank / 100, // best match first
+          });
+          sources[id] = { kind: item.kind, path: item.path, line: item.line, title: item.title, score };
+        });
+        parts.push(...selection.splice(0));
+      } else {
+        // Fallback: cached summary nearest to the provided selection/text by shared tokens
+        const summaries = await loadSummaries(doc.projectId);
+        const best = pickBestSummary(provided, summaries, doc.path);
+        if (best?.text) {
+          const from = best.path !== doc.path ? ` (from ${best.path})` : '';
+          parts.push({ id: 'summary', label: `Summary of ${best.path}`, text: `Summary${from}:\n${best.text}`, priority: 2 });
+          sources.summary = { kind: 'summary', path: best.path, line: 0, title: 'Section summary', score: 0 };
+        }
+        parts.push(...selection.splice(0));
+        // Pull in other chapters so questions like "is X defined in chapter 2?" can be answered
+        const files = Object.values(await loadProjectFiles(doc.projectId));
+        const extra = projectContext(`${question}\n${provided}`, files, doc.path);
+        if (extra) parts.push({ id: 'project', label: 'Other project files', text: extra, priority: 3 });
+      }
+    } catch {}
+    return { parts: [...parts, ...selection], sources };
+  }
+
+  // The model's context limit, asked once per model and worker lifetime (unknown: undefined).
+  // A failed lookup (endpoint down, model not pulled yet) is not kept, so the next request asks again.
+  const modelLimits = new Map<string, Promise<number | undefined>>();
+  async function contextFor(task?: ModelTask): Promise<number> {
+    const settings = await getSettings();
+    const model = task ? modelFor(settings, task) : settings.model;
+    const key = `${settings.provider}:${settings.endpoint}:${model}`;
+    let limit = modelLimits.get(key);
+    if (!limit) {
+      const provider = createProvider(settings);
+      limit = provider.show
+        ? provider.show(model).then(d => d.contextLength, () => { modelLimits.delete(key); return undefined; })
+        : Promise.resolve(undefined);
+      modelLimits.set(key, limit);
     }
-    
-    return result;
+    return contextWindow(await limit, settings.contextPreference);
   }
   
+  // --- Utilities
+  
   async function getSettings(): Promise<Settings> {
-    const s = await chrome.storage.local.get(DEFAULTS);
-    return { ...DEFAULTS, ...s };
+    // Only the stored keys, so withDefaults can tell a missing setting from a default one
+    const s = await chrome.storage.local.get(Object.keys(DEFAULTS));
+    return withDefaults(s as Partial<Settings>);
   }
   async function setSettings(patch: Partial<Settings>) {
     const prev = await getSettings();
     await chrome.storage.local.set({ ...prev, ...patch });
     await ensureAlarm();
+    if (patch.promptActions || patch.sites) await rebuildContextMenus();
+    if (patch.sites) await syncSiteScripts();
   }
   
+  // Only the 'interval' mode ticks; 'edit' runs are started by the panel when typing pauses
   async function ensureAlarm() {
-    const { paused, intervalMin } = await getSettings();
+    const { paused, coachMode, intervalMin } = await getSettings();
     await chrome.alarms.clear('writetank:tick');
-    if (!paused && intervalMin > 0) {
+    if (!paused && coachMode === 'interval' && intervalMin > 0) {
       chrome.alarms.create('writetank:tick', { periodInMinutes: intervalMin });
     }
   }
   
-  // Trim incoming text to keep latency under control
-  function trimChars(s: string, max = 1500) {
-    if (!s) return '';
-    return s.length > max ? s.slice(0, max) : s;
-  }
-  
   // Chat call with system prompt + strict caps
-  async function ollamaChat({
+  async function modelChat({
     system,
     user,
     numPredict = 180,
-    numCtx = 2048,
+    numCtx,
+    signal,
+    task,
+    format,
   }: {
     system: string;
     user: string;
     numPredict?: number;
-    numCtx?: number;
+    numCtx?: number; // default: the task model's context window (see contextFor)
+    signal?: AbortSignal;
+    task?: ModelTask; // picks the task's model (settings.taskModels), else settings.model
+    format?: object;  // JSON schema for a structured reply
   }): Promise<string> {
-    const { endpoint, model } = await getSettings();
-    const url = `${endpoint.replace(/\/$/, '')}/api/chat`;
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: user },
-        ],
-        stream: false,
-        keep_alive: '30m',
-        options: {
-          num_predict: numPredict,  // hard cap output tokens
-          num_ctx: numCtx,          // keep modest for speed
-          temperature: 0.2,
-          top_p: 0.9,
-          repeat_penalty: 1.1,
-          // Optional stop sequences to cut tails
-          stop: ["\n\n\n"]
-        },
-      }),
+    const settings = await getSettings();
+    const provider = createProvider(settings);
+    return provider.chat({
+      model: task ? modelFor(settings, task) : undefined,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+      ],
+      numPredict,
+      numCtx: numCtx ?? await contextFor(task),
+      signal,
+      format,
     });
-    if (!res.ok) throw new Error(`Ollama HTTP ${res.status}`);
-    const data = await res.json();
-    return data?.message?.content ?? '';
   }
 
-  // Streaming chat helper
-  async function ollamaChatStream({
+  // Streaming chat helper; `history` (prior user/assistant turns) goes between system and user
+  async function modelChatStream({
     system,
     user,
+    history = [],
     numPredict = 200,
-    numCtx = 2048,
+    numCtx,
     onDelta,
+    signal,
+    task,
   }: {
     system: string;
     user: string;
+    history?: ChatMessage[];
     numPredict?: number;
     numCtx?: number;
     onDelta: (text: string) => void;
+    signal?: AbortSignal;
+    task?: ModelTask;
   }): Promise<string> {
-    const { endpoint, model } = await getSettings();
-    const url = `${endpoint.replace(/\/$/, '')}/api/chat`;
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: user },
-        ],
-        stream: true,
-        keep_alive: '30m',
-        options: {
-          num_predict: numPredict,
-          num_ctx: numCtx,
-          temperature: 0.2,
-          top_p: 0.9,
-          repeat_penalty: 1.1,
-          stop: ["\n\n\n"]
-        },
-      }),
-    });
-    if (!res.ok || !res.body) throw new Error(`Ollama HTTP ${res.status}`);
-    const reader = res.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-    let full = '';
-    while (true) {
-      const { value, done } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-      let idx;
-      while ((idx = buffer.indexOf('\n')) >= 0) {
-        const line = buffer.slice(0, idx).trim();
-        buffer = buffer.slice(idx + 1);
-        if (!line) continue;
-        try {
-          const obj = JSON.parse(line);
-          const delta = obj?.message?.content || obj?.response || '';
-          if (delta) {
-            full += delta;
-            onDelta(delta);
-          }
-        } catch {
-          // ignore malformed fragments
-        }
-      }
+    const settings = await getSettings();
+    const provider = createProvider(settings);
+    return provider.chatStream({
+      model: task ? modelFor(settings, task) : undefined,
+      messages: [
+        { role: 'system', content: system },
+        ...history,
+        { role: 'user', content: user },
+      ],
+      numPredict,
+      numCtx: numCtx ?? await contextFor(task),
+      signal,
+    }, onDelta);
+  }
+  
+  // --- Model pulls (Ollama /api/pull)
+  // Not a job: a download can take many minutes and must not hold up the queue. A second
+  // request for the same model (e.g. the popup reopened) follows the running pull.
+  type ActivePull = { last: PullProgress; listeners: Set<(p: PullProgress) => void>; done: Promise<void> };
+  const pulls = new Map<string, ActivePull>();
+
+  async function pullModel(name: string, onProgress: (p: PullProgress) => void) {
+    let pull = pulls.get(name);
+    if (!pull) {
+      const provider = createProvider(await getSettings());
+      if (!provider.pull) throw new Error('Pulling models needs the Ollama provider');
+      const listeners = new Set<(p: PullProgress) => void>();
+      const started: ActivePull = { last: { status: 'starting' }, listeners, done: Promise.resolve() };
+      started.done = provider.pull(name, p => {
+        started.last = p;
+        for (const fn of listeners) fn(p);
+      }).finally(() => pulls.delete(name));
+      pulls.set(name, pull = started);
     }
-    // flush remainder
-    if (buffer.trim()) {
-      try {
-        const obj = JSON.parse(buffer.trim());
-        const delta = obj?.message?.content || obj?.response || '';
-        if (delta) {
-          full += delta;
-          onDelta(delta);
-        }
-      } catch {}
+    onProgress(pull.last);
+    pull.listeners.add(onProgress);
+    try {
+      await pull.done;
+    } finally {
+      pull.listeners.delete(onProgress);
     }
-    return full;
   }
-  
-  async function getActiveOverleafTab(): Promise<chrome.tabs.Tab | null> {
-    const tabs = await chrome.tabs.query({
-      url: '*://www.overleaf.com/*',
-      active: true,
-      currentWindow: true,
-    });
-    return tabs[0] ?? null;
+
+  // The active tab, if it is on overleaf.com or a site added on the options page
+  async function getActiveEditorTab(): Promise<chrome.tabs.Tab | null> {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const { sites } = await getSettings();
+    return tab && siteFor(tab.url, sites) ? tab : null;
   }
+
+  // --- Job queue
+  // Every model-bound request runs through here: one at a time, by priority, deduplicated,
+  // and stoppable from the panel ("jobs:cancel").
+  const jobs = createJobQueue();
   
+  // --- Chunked coaching
+  // Each section/paragraph chunk is coached with COACH_PROMPT (JSON findings); the chunk
+  // reports merge locally (mergeReports), so anchors stay exact quotes of the text.
+  const COACH_CHUNK_CHARS = 2500;
+  const MAX_COACH_CHUNKS = 24;
+
+  // One validated report for `user`; an invalid reply is retried once with the validation error
+  async function coachJson({ system, user, numPredict, signal, task }: {
+    system: string;
+    user: string;
+    numPredict: number;
+    signal?: AbortSignal;
+    task: ModelTask;
+  }): Promise<CoachReport> {
+    let prompt = user;
+    let error = '';
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const reply = await modelChat({ system, user: prompt, numPredict, signal, task, format: COACH_REPORT_SCHEMA });
+      const parsed = parseCoachReport(reply);
+      if (parsed.report) return parsed.report;
+      error = parsed.error;
+      console.warn('Coach: invalid reply, retrying', error, reply.slice(0, 200));
+      prompt = `${user}\n\nYour previous reply was invalid: ${error}. Reply again with JSON only, following the schema.`;
+    }
+    throw new Error(`Coach reply did not match the schema (${error})`);
+  }
+
+  // Coach `text` and stream plan/progress deltas to `emit`; resolves to the final report.
+  // `detail` selects COACH_PROMPT_EXPAND (more findings, with rationale) for every chunk.
+  // When `signal` aborts, resolves with the chunks finished so far and `stopped: true`.
+  async function coachDocument({ text, doc, emit = () => {}, detail = false, signal }: {
+    text: string;
+    doc: DocRef;
+    emit?: (delta: CoachDelta) => void;
+    detail?: boolean;
+    signal?: AbortSignal;
+  }): Promise<{ text: string; stopped: boolean; report?: CoachReport; citations?: CitationReport }> {
+    const projectMap = await coachProjectMap(doc).catch(() => '');
+    const bib = await loadBibEntries(doc.projectId).catch(() => [] as BibEntry[]);
+    const { styleLint } = await getSettings();
+    const system = await systemPromptFor(doc.projectId);
+    const hints = (c: { text: string; startLine: number }) => styleHints(c.text, styleLint, c.startLine);
+    const task: ModelTask = detail ? 'expand' : 'coach';
+    const all = splitLatexChunks(text, COACH_CHUNK_CHARS);
+    const chunks = all.length ? all.slice(0, MAX_COACH_CHUNKS) : [{ title: '(text)', text, startLine: 1 }];
+    emit({ kind: 'plan', chunks: chunks.map(c => ({ title: c.title, startLine: c.startLine })), skipped: all.length - chunks.length });
+    const done: { title: string; report: CoachReport }[] = [];
+    // Fix suggestions may carry citation keys: placeholders get ranked keys, unknown keys are flagged
+    const finish = (stopped: boolean) => {
+      if (!done.length) return { text: '', stopped };
+      const report = mergeReports(done);
+      const latex = reportToLatex(report);
+      return { text: latex, stopped, report, citations: bib.length ? citationReport(latex, bib, text) : undefined };
+    };
+
+    // Sequential: a local model serves one request at a time anyway
+    for (let i = 0; i < chunks.length; i++) {
+      const c = chunks[i];
+      if (signal?.aborted) { emit({ kind: 'progress', index: i, state: 'stopped' }); return finish(true); }
+      emit({ kind: 'progress', index: i, state: 'running' });
+      const references = referencesFor(c.text, bib, chunks.length > 1 ? 4 : 6);
+      try {
+        const report = await coachJson({
+          system,
+          user: detail ? COACH_PROMPT_EXPAND(c.text, references, hints(c)) : COACH_PROMPT(c.text, projectMap, references, hints(c)),
+          numPredict: detail ? 900 : 500,
+          signal,
+          task,
+        });
+        done.push({ title: c.title, report: checkAnchors(report, c.text) });
+        emit({ kind: 'progress', index: i, state: 'done' });
+      } catch (e: any) {
+        if (isAbortError(e)) { emit({ kind: 'progress', index: i, state: 'stopped' }); return finish(true); }
+        if (chunks.length === 1) throw e;
+        console.error('Coach: chunk failed', c.title, e);
+        emit({ kind: 'progress', index: i, state: 'error' });
+      }
+    }
+    if (done.length === 0) throw new Error('Model returned no findings');
+    return finish(false);
+  }
+
   // --- Lifecycle
   chrome.runtime.onInstalled.addListener(async () => {
     await setSettings({}); // write defaults if missing
     await ensureAlarm();
+    await rebuildContextMenus();
+    await syncSiteScripts();
   });
-  chrome.runtime.onStartup.addListener(ensureAlarm);
-  
-  // --- Messaging
-  chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
-    (async () => {
-      if (msg?.cmd === 'settings:get') {
-        sendResponse(await getSettings());
-        return;
-      }
-      if (msg?.cmd === 'settings:set') {
-        await setSettings(msg.patch || {});
-        sendResponse({ ok: true });
-        return;
-      }
-      if (msg?.cmd === 'qa') {
-        // Try to load a cached summary nearest to the provided selection/text
-        const provided = (msg?.text ?? '') as string;
-        let context = trimChars(provided, 1500);
-        try {
-          const docId = await getDocId();
-          const summaries = await loadSummaries(docId);
-          const best = pickBestSummary(provided, summaries);
-          if (best?.text) {
-            context = trimChars(best.text + (provided ? ('\n\nSelection:\n' + provided) : ''), 1500);
-          }
-        } catch {}
-        const question = (msg?.question ?? '').trim();
-        console.log('QA Request:', { context: context.substring(0, 100), question });
-        try {
-          // Get active tab for streaming updates
-          const tab = await getActiveOverleafTab();
-          // Use streaming for better UX
-          let streamedOutput = '';
-          await ollamaChatStream({
-            system: SYSTEM_PROMPT,
-            user: QA_PROMPT(context, question),
-            numPredict: 180,
-            numCtx: 2048,
-            onDelta: (delta: string) => {
-              streamedOutput += delta;
-              // Send delta to content script for real-time display
-              if (tab?.id) {
-                chrome.tabs.sendMessage(tab.id, { cmd: 'qa:answer:delta', text: delta }).catch(() => {});
-              }
-            },
-          });
-          
-          // Ensure LaTeX completeness before sending final response
-          const finalOutput = ensureLatexCompleteness(streamedOutput);
-          console.log('QA Answer:', finalOutput);
-          sendResponse({ ok: true, text: finalOutput });
-        } catch (e: any) {
-          console.error('QA Error:', e);
-          sendResponse({ ok: false, error: e?.message || 'Model error' });
-        }
-        return;
+  chrome.runtime.onStartup.addListener(async () => {
+    await ensureAlarm();
+    await rebuildContextMenus();
+  });
+  // A host permission revoked in chrome://extensions (or granted again) changes where the panel runs
+  chrome.permissions.onRemoved.addListener(() => { syncSiteScripts(); });
+  chrome.permissions.onAdded.addListener(() => { syncSiteScripts(); });
+
+  // --- Added sites (self-hosted Overleaf, other editors)
+  // overleaf.com gets the panel from the manifest. Every added site whose host permission is
+  // granted gets the same two scripts (panel + page-world bridge), registered at runtime; the
+  // panel loader is the dynamic script above, the bridge and the panel CSS come from the
+  // manifest's own entries. Registrations persist across restarts.
+  const SITE_SCRIPT_PREFIX = 'wt-site:';
+
+  let sitesSynced: Promise<void> = Promise.resolve();
+
+  // Serialized: a settings save and a permission event can arrive together
+  function syncSiteScripts(): Promise<void> {
+    sitesSynced = sitesSynced.then(async () => {
+      const registered = await chrome.scripting.getRegisteredContentScripts();
+      const ids = registered.map(s => s.id).filter(id => id.startsWith(SITE_SCRIPT_PREFIX));
+      if (ids.length) await chrome.scripting.unregisterContentScripts({ ids });
+      // (the manifest typings lack `world`)
+      const entries = (chrome.runtime.getManifest().content_scripts ?? []) as { js?: string[]; css?: string[]; world?: string }[];
+      const panel = entries.find(e => e.world !== 'MAIN');
+      const bridge = entries.find(e => e.world === 'MAIN');
+      if (!bridge?.js) return;
+      const { sites } = await getSettings();
+      const scripts: chrome.scripting.RegisteredContentScript[] = [];
+      // One registration per host: patterns match every port, so two ports of a host share it
+      for (const pattern of sitePatterns(sites).filter(p => p !== originPattern(BUILTIN_SITE.origin))) {
+        if (!await chrome.permissions.contains({ origins: [pattern] })) continue;
+        scripts.push(
+          { id: `${SITE_SCRIPT_PREFIX}panel:${pattern}`, matches: [pattern], js: [panelLoader], css: panel?.css, runAt: 'document_idle' },
+          { id: `${SITE_SCRIPT_PREFIX}bridge:${pattern}`, matches: [pattern], js: bridge.js, runAt: 'document_start', world: 'MAIN' },
+        );
       }
-      if (msg?.cmd === 'coach') {
-        const snippet = trimChars(msg?.text ?? '', 1500);
-        try {
-          const out = await ollamaChat({
-            system: SYSTEM_PROMPT,
-            user: COACH_PROMPT(snippet),
-            numPredict: 200,
-            numCtx: 2048,
-          });
-          const safeOut = (out && out.trim()) ? out : 'No substantial issues detected. Keep going!';
-          const completed = ensureCompleteSentences(safeOut);
-          const finalOut = ensureLatexCompleteness(completed);
-          sendResponse({ ok: true, text: finalOut, updatedAt: Date.now() });
-        } catch (e: any) {
-          sendResponse({ ok: false, error: e?.message || 'Model error' });
+      if (scripts.length) await chrome.scripting.registerContentScripts(scripts);
+    }).catch(e => console.warn('WriteTank: could not register site scripts', e));
+    return sitesSynced;
+  }
+  
+  // --- Messaging (typed RPC over ports, see messages.ts)
+  // Panels connect one port per tab; replies and streamed deltas go back over the
+  // caller's own port, so they reach the tab that asked even if another is active.
+  const tabPeers = new Map<number, Peer<ContentMethods, PushStreams>>();
+  const peerWaiters = new Map<number, (() => void)[]>();
+
+  // The tab's port, asking the content script to reconnect if the worker lost it
+  async function tabPeer(tabId: number): Promise<Peer<ContentMethods, PushStreams> | null> {
+    const existing = tabPeers.get(tabId);
+    if (existing) return existing;
+    const connected = new Promise<void>(resolve => {
+      peerWaiters.set(tabId, [...(peerWaiters.get(tabId) ?? []), resolve]);
+      setTimeout(resolve, 2000);
+    });
+    await chrome.tabs.sendMessage(tabId, { type: 'writetank:connect' } satisfies RpcWake).catch(() => {});
+    await connected;
+    return tabPeers.get(tabId) ?? null;
+  }
+
+  // Coach what the tab shows (the whole file if nothing is visible) as a queued job
+  async function coachTab({ tabId, priority, preemptible = false, emit }: {
+    tabId: number;
+    priority: number;
+    preemptible?: boolean;
+    emit: (delta: CoachDelta) => void;
+  }): Promise<CoachResult> {
+    const peer = await tabPeer(tabId);
+    if (!peer) throw new Error('No editor tab');
+    emit({ kind: 'status', text: 'Scanning visible text…' });
+    let sample = await peer.call('grabText', { mode: 'visible' }).catch(() => null);
+    let source = 'visible';
+    if (!sample?.text) {
+      // Fallback to full editor text
+      sample = await peer.call('grabText', { mode: 'all' }).catch(() => null);
+      source = 'fallback-full';
+    }
+    if (!sample?.text) throw new Error('No text');
+    const { text, doc: docHint } = sample;
+    const region = coachedRegion(text, sample.from);
+    emit({ kind: 'status', text: `Read ${text.length} chars from ${source === 'visible' ? 'visible area' : 'full editor'}…` });
+    const doc = await getDocRef(docHint);
+    emit({ kind: 'status', text: 'Thinking…' });
+    console.log('Coach: Sending request with text length:', text.length);
+    const res = await jobs.enqueue({
+      kind: 'coach',
+      priority,
+      // Same tab and same text: an alarm run and a "Run now" share one job
+      key: `coach:${tabId}:${simpleHash(text)}`,
+      tabId,
+      preemptible,
+      emit,
+      run: async (signal, emit) => {
+        const res = { ...await coachDocument({ text, doc, emit, signal }), region };
+        if (!res.stopped) {
+          markCoached(doc, text).catch(() => {});
+          // Recorded once per run, however many callers share it; awaited so the panel's
+          // history already has this run when the result arrives
+          await recordCoachRun(doc, source === 'visible' ? 'visible' : 'document', text, res).catch(() => {});
         }
-        return;
+        return res;
+      },
+    });
+    console.log('Coach: Final output:', res.text);
+    // Fire-and-forget summary cache update (queued behind the coach run, not ahead of it)
+    maybeUpdateSummary(text, doc, tabId).catch(() => {});
+    return { ...res, updatedAt: Date.now() };
+  }
+
+  // Where coached text sat in the file, given its start offset (findings' anchors are looked up there)
+  function coachedRegion(text: string, from: number | undefined): AnchorRange | undefined {
+    return from === undefined ? undefined : { from, to: from + text.length };
+  }
+
+  // A queued coach pass over text sent by the panel (edit-driven runs: low priority, preemptible);
+  // `from`: the text's offset in the file, when the panel knows it
+  async function coachText(kind: 'coach' | 'expand', text: string, docHint: DocRef | undefined, tabId: number | undefined, emit: (delta: CoachDelta) => void, edit = false, from?: number): Promise<CoachResult> {
+    const doc = await getDocRef(docHint);
+    const scope: CoachScope = edit ? 'edit' : kind === 'expand' ? 'document' : 'excerpt';
+    const region = coachedRegion(text, from);
+    try {
+      const res = await jobs.enqueue({
+        kind,
+        priority: edit ? PRIORITY.auto : PRIORITY.manual,
+        // Only the same request over the same text shares a run (never a tab coach pass)
+        key: `${kind}:${scope}:${tabId}:${simpleHash(text)}`,
+        tabId,
+        preemptible: edit,
+        emit,
+        run: async (signal, emit) => {
+          const res = { ...await coachDocument({ text, doc, emit, detail: kind === 'expand', signal }), region };
+          if (!res.stopped) {
+            markCoached(doc, text).catch(() => {});
+            await recordCoachRun(doc, scope, text, res).catch(() => {});
+          }
+          return res;
+        },
+      });
+      return { ...res, updatedAt: Date.now() };
+    } catch (e) {
+      // Stopped while still queued
+      if (isAbortError(e)) return { text: '', stopped: true, updatedAt: Date.now() };
+      throw e;
+    }
+  }
+
+  // Answer lengths (tokens); the budgeter keeps this much of the window free
+  const QA_NUM_PREDICT = 180;
+  const ACTION_NUM_PREDICT = 400;
+
+  const handlers: Handlers<BackgroundMethods> = {
+    'settings:get': () => getSettings(),
+    'settings:set': async ({ patch }) => {
+      await setSettings(patch || {});
+    },
+    'qa': async ({ question: rawQuestion, text, doc: docHint, threadId }, { emit, port }) => {
+      const provided = text ?? '';
+      const question = (rawQuestion ?? '').trim();
+      const doc = await getDocRef(docHint);
+      const existing = threadId ? (await loadThreads(doc))[threadId] : undefined;
+      const thread: QaThread = existing ?? { id: newThreadId(), title: titleFromQuestion(question), createdAt: Date.now(), updatedAt: Date.now(), turns: [] };
+      const isFollowUp = thread.turns.length > 0;
+      // Follow-ups lean on the thread history; fetch fresh context only for new threads or new selections
+      const { parts: contextParts, sources: found } = (!isFollowUp || provided)
+        ? await qaContextParts(doc, provided, question)
+        : { parts: [] as BudgetPart[], sources: {} as Record<string, RetrievedSource> };
+      // The .bib entries closest to the question, so the answer can cite real keys
+      const bib = await loadBibEntries(doc.projectId).catch(() => [] as BibEntry[]);
+      const references = contextParts.length ? referencesFor(`${question}\n${provided}`, bib) : '';
+      if (references) contextParts.push({ id: 'references', label: 'References', text: `Available references (key — title):\n${references}`, priority: 4 });
+      const system = await systemPromptFor(doc.projectId);
+      // Earlier turns: the opening one (it carries the thread's original context), then newest first
+      const history = threadHistory(thread);
+      const turnParts: BudgetPart[] = [];
+      for (let k = 0; k < history.length / 2; k++) {
+        const [asked, answered] = history.slice(2 * k, 2 * k + 2);
+        turnParts.push({ id: `turn:${k}`, label: k ? `Turn ${k + 1}` : 'First turn', text: `${asked.content}\n${answered.content}`, priority: k ? 6 - k / 100 : 5, whole: true });
       }
-      if (msg?.cmd === 'coach:expand') {
-        const snippet = trimChars(msg?.text ?? '', 1500);
-        try {
-          const out = await ollamaChat({
-            system: SYSTEM_PROMPT,
-            user: COACH_PROMPT_EXPAND(snippet),
-            numPredict: 350,
-            numCtx: 2048,
-          });
-          const safeOut = (out && out.trim()) ? out : 'No substantial issues detected. Keep going!';
-          const completed = ensureCompleteSentences(safeOut);
-          const finalOut = ensureLatexCompleteness(completed);
-          sendResponse({ ok: true, text: finalOut, updatedAt: Date.now() });
-        } catch (e: any) {
-          sendResponse({ ok: false, error: e?.message || 'Model error' });
-        }
-        return;
+      const followUp = isFollowUp && !contextParts.length;
+      const numCtx = await contextFor('qa');
+      const { texts, report: budget } = allocateBudget([
+        { id: 'system', label: 'System', text: system, priority: 0, required: true },
+        { id: 'question', label: 'Question', text: question, priority: 0, required: true },
+        ...contextParts,
+        ...turnParts,
+      ], { numCtx, reserve: QA_NUM_PREDICT + estimateTokens(followUp ? QA_FOLLOWUP_PROMPT('') : QA_PROMPT('', '')) });
+      const context = contextParts.map(p => texts[p.id]).filter(Boolean).join('\n\n');
+      const kept = history.filter((_, i) => texts[`turn:${i >> 1}`]);
+      const sources = Object.entries(found).filter(([id]) => texts[id]).map(([, src]) => src);
+      const prompt = followUp ? QA_FOLLOWUP_PROMPT(texts.question) : QA_PROMPT(context, texts.question);
+      console.log('QA Request:', { context: context.substring(0, 100), question, thread: thread.id, turns: thread.turns.length, budget });
+      let result: { text: string; stopped: boolean };
+      try {
+        result = await jobs.enqueue({
+          kind: 'qa',
+          priority: PRIORITY.interactive,
+          key: `qa:${thread.id}:${simpleHash(question + '\n' + provided)}`,
+          tabId: port.sender?.tab?.id,
+          run: async signal => {
+            let streamed = '';
+            try {
+              // Stream deltas back to the asking panel for real-time display
+              await modelChatStream({
+                system: texts.system,
+                user: prompt,
+                history: kept,
+                numPredict: QA_NUM_PREDICT,
+                numCtx,
+                signal,
+                task: 'qa',
+                onDelta: (delta: string) => { streamed += delta; emit(delta); },
+              });
+              return { text: streamed, stopped: false };
+            } catch (e) {
+              if (isAbortError(e)) return { text: streamed, stopped: true };
+              throw e;
+            }
+          },
+        });
+      } catch (e: any) {
+        // Stopped while still queued
+        if (isAbortError(e)) return { text: '', sources: [], stopped: true };
+        console.error('QA Error:', e);
+        throw new Error(e?.message || 'Model error');
       }
-      if (msg?.cmd === 'ping-endpoint') {
-        try {
-          const { endpoint } = await getSettings();
-          const r = await fetch(`${endpoint.replace(/\/$/, '')}/api/tags`);
-          sendResponse({ ok: r.ok });
-        } catch {
-          sendResponse({ ok: false });
-        }
-        return;
+
+      // Validate and repair the LaTeX before sending the final response
+      if (!result.text.trim()) return { text: '', sources, threadId: thread.turns.length ? thread.id : undefined, stopped: result.stopped, budget };
+      const { text: finalOutput, report: check } = checkLatex(result.text);
+      const citations = bib.length ? citationReport(finalOutput, bib, provided) : undefined;
+      console.log('QA Answer:', finalOutput, result.stopped ? '(stopped)' : '', check);
+      // A stopped answer still becomes a turn, so follow-ups can build on it
+      const turn = { question, prompt, answer: finalOutput, sources, check, citations, at: Date.now() };
+      // Appended to the stored thread, which a rename may have changed while the answer streamed
+      await updateThreads(doc, threads => {
+        const stored = threads[thread.id] ?? thread;
+        threads[thread.id] = { ...stored, turns: [...stored.turns, turn], updatedAt: Date.now() };
+      });
+      return { text: finalOutput, sources, threadId: thread.id, stopped: result.stopped, check, citations, budget };
+    },
+    'action:run': async ({ actionId, selection, text, line, doc: docHint }, { emit, port }) => {
+      const action = (await getSettings()).promptActions.find(a => a.id === actionId);
+      if (!action) throw new Error('Action not found (edit actions on the options page)');
+      const doc = await getDocRef(docHint);
+      const files = Object.values(await loadProjectFiles(doc.projectId)).filter(f => f.path !== doc.path);
+      const summary = pickBestSummary(selection || text, await loadSummaries(doc.projectId), doc.path);
+      const vars: Record<PromptVariable, string> = {
+        selection: selection ?? '',
+        section_title: sectionTitleAt(text ?? '', line || 1),
+        summary: summary?.text ?? '',
+        document: '',
+        file: doc.path,
+        project_outline: files.length ? projectOutline(files) : '',
+      };
+      const system = await systemPromptFor(doc.projectId);
+      // {{document}} gets what the rest of the prompt leaves of the window
+      const numCtx = await contextFor('qa');
+      const room = numCtx - ACTION_NUM_PREDICT - estimateTokens(system) - estimateTokens(renderTemplate(action.template, vars));
+      vars.document = fitTokens(text ?? '', Math.max(0, room));
+      const prompt = renderTemplate(action.template, vars);
+      let result: { text: string; stopped: boolean };
+      try {
+        result = await jobs.enqueue({
+          kind: 'action',
+          priority: PRIORITY.interactive,
+          key: `action:${action.id}:${simpleHash(prompt)}`,
+          tabId: port.sender?.tab?.id,
+          run: async signal => {
+            let streamed = '';
+            try {
+              await modelChatStream({
+                system,
+                user: prompt,
+                numPredict: ACTION_NUM_PREDICT,
+                numCtx,
+                signal,
+                task: 'qa',
+                onDelta: (delta: string) => { streamed += delta; emit(delta); },
+              });
+              return { text: streamed, stopped: false };
+            } catch (e) {
+              if (isAbortError(e)) return { text: streamed, stopped: true };
+              throw e;
+            }
+          },
+        });
+      } catch (e: any) {
+        if (isAbortError(e)) return { text: '', stopped: true };
+        throw new Error(e?.message || 'Model error');
       }
-      if (msg?.cmd === 'test-model') {
-        try {
-          const ans = await ollamaChat({
-            system: "You are a helpful assistant. Answer briefly.",
-            user: "What is 2+2?",
-            numPredict: 50,
-            numCtx: 512,
-          });
-          sendResponse({ ok: true, text: ans });
-        } catch (e: any) {
-          sendResponse({ ok: false, error: e?.message || 'Model error' });
+      if (!result.text.trim()) return result;
+      const { text: finalOutput, report: check } = checkLatex(result.text);
+      return { text: finalOutput, stopped: result.stopped, check };
+    },
+    'threads:list': async ({ doc }) => {
+      const threads = Object.values(await loadThreads(await getDocRef(doc)));
+      return threads
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map(t => ({ id: t.id, title: t.title, updatedAt: t.updatedAt, turns: t.turns.length }));
+    },
+    'threads:get': async ({ doc, threadId }) => (await loadThreads(await getDocRef(doc)))[threadId] ?? null,
+    'threads:rename': async ({ doc: docHint, threadId, title: rawTitle }) => {
+      const doc = await getDocRef(docHint);
+      const title = String(rawTitle ?? '').trim();
+      await updateThreads(doc, threads => {
+        const thread = threads[threadId];
+        if (!thread || !title) throw new Error('Thread not found');
+        thread.title = title.slice(0, 120);
+      });
+    },
+    'threads:delete': async ({ doc: docHint, threadId }) => {
+      const doc = await getDocRef(docHint);
+      await updateThreads(doc, threads => { delete threads[threadId]; });
+    },
+    'coach': ({ text, doc, from }, { emit, port }) => coachText('coach', text ?? '', doc, port.sender?.tab?.id, emit, false, from),
+    'coach:edit': async ({ text, doc: docHint, from }, { emit, port }) => {
+      const { paused, coachMode } = await getSettings();
+      if (paused || coachMode !== 'edit' || !text?.trim()) return null;
+      const doc = await getDocRef(docHint);
+      if (await alreadyCoached(doc, text)) return null;
+      return coachText('coach', text, doc, port.sender?.tab?.id, emit, true, from);
+    },
+    'coach:expand': ({ text, doc, from }, { emit, port }) => {
+      // Detailed pass over the whole document sent by the panel
+      const tabId = port.sender?.tab?.id;
+      if (!tabId) throw new Error('No editor tab');
+      return coachText('expand', text ?? '', doc, tabId, emit, false, from);
+    },
+    'coach:run': async (_params, { emit, port }) => {
+      // From a panel: stream to its own request. From the popup: push to the active Overleaf tab.
+      const callerTab = port.sender?.tab?.id;
+      const tabId = callerTab ?? (await getActiveEditorTab())?.id;
+      if (!tabId) throw new Error('No editor tab');
+      const stream = callerTab ? null : (await tabPeer(tabId))?.open('coach');
+      try {
+        const res = await coachTab({ tabId, priority: PRIORITY.manual, emit: stream?.emit ?? emit });
+        stream?.done(res);
+        return res;
+      } catch (e: any) {
+        if (isAbortError(e)) {
+          // Stopped while still queued
+          const res = { text: '', stopped: true, updatedAt: Date.now() };
+          stream?.done(res);
+          return res;
         }
-        return;
+        console.error('Coach: Error:', e);
+        stream?.error(e?.message || 'Model error');
+        throw new Error(e?.message || 'Model error');
       }
-      if (msg?.cmd === 'run-now') {
-        const tab = await getActiveOverleafTab();
-        if (!tab?.id) { sendResponse({ ok: false, error: 'No Overleaf tab' }); return; }
-        // Prefer visible area for coaching
-        await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: 'Scanning visible text…' }).catch(() => {});
-        let sample = await chrome.tabs.sendMessage(tab.id, { cmd: 'grabText', mode: 'visible' }).catch(() => null);
-        let source = 'visible';
-        if (!sample?.text) {
-          // Fallback to full editor text
-          sample = await chrome.tabs.sendMessage(tab.id, { cmd: 'grabText' }).catch(() => null);
-          source = 'fallback-full';
-        }
-        if (!sample?.text) { sendResponse({ ok: false, error: 'No text' }); return; }
-        await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: `Read ${sample.text.length} chars from ${source === 'visible' ? 'visible area' : 'full editor'}…` }).catch(() => {});
-        // Fire-and-forget summary cache update
-        maybeUpdateSummary(sample.text).catch(() => {});
-        try {
-          await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: 'Thinking…' }).catch(() => {});
-          console.log('Coach: Sending request with text length:', sample.text.length);
-          
-          // Use streaming for better UX
-          let streamedOutput = '';
-          await ollamaChatStream({
-            system: SYSTEM_PROMPT,
-            user: COACH_PROMPT(trimChars(sample.text, 1500)),
-            numPredict: 200,
-            numCtx: 2048,
-            onDelta: (delta: string) => {
-              streamedOutput += delta;
-              if (tab.id) {
-                chrome.tabs.sendMessage(tab.id, { cmd: 'coach:answer:delta', text: delta }).catch(() => {});
-              }
-            },
-          });
-          
-          console.log('Coach: Final output:', streamedOutput);
-          const safeOut = (streamedOutput && streamedOutput.trim()) ? streamedOutput : 'No substantial issues detected. Keep going!';
-          const completed = ensureCompleteSentences(safeOut);
-          const finalOut = ensureLatexCompleteness(completed);
-          await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:answer', text: finalOut, updatedAt: Date.now() });
-          sendResponse({ ok: true });
-        } catch (e: any) {
-          console.error('Coach: Error:', e);
-          await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: `(error) ${e?.message || 'Model error'}` }).catch(() => {});
-          sendResponse({ ok: false, error: e?.message || 'Model error' });
-        }
-        return;
+    },
+    'coach:history': async ({ doc }) => loadCoachHistory(await getDocRef(doc)),
+    'coach:mark': async ({ doc: docHint, runId, itemId, status }) => {
+      const doc = await getDocRef(docHint);
+      return updateCoachHistory(doc, history => {
+        const item = history.find(r => r.id === runId)?.items.find(i => i.id === itemId);
+        if (!item) throw new Error('Suggestion not found');
+        item.status = status;
+        item.statusAt = Date.now();
+        return history;
+      });
+    },
+    'jobs:cancel': ({ kinds }, { port }) => {
+      const tabId = port.sender?.tab?.id;
+      const cancelled = jobs.cancel(j => (tabId === undefined || j.tabId === tabId) && (!kinds || kinds.includes(j.kind)));
+      return { cancelled };
+    },
+    'project:capture': async ({ projectId, files, source }) => {
+      if (!projectId || !Array.isArray(files)) throw new Error('Bad request');
+      return captureProjectFiles(projectId, files, source === 'zip' ? 'zip' : 'editor');
+    },
+    'project:info': async ({ projectId }) => {
+      const files = Object.values(await loadProjectFiles(projectId || ''));
+      return files.map(f => ({ path: f.path, chars: f.text.length, updatedAt: f.updatedAt, source: f.source }));
+    },
+    'checks:refs': async ({ text, doc: docHint }) => {
+      // No model call, so no job: the editor's live text stands in for the captured copy of the open file
+      const doc = await getDocRef(docHint);
+      return { ...checkReferences(await checkedFiles(doc, text ?? '')), path: doc.path };
+    },
+    'checks:terms': async ({ text, doc: docHint }) => {
+      const doc = await getDocRef(docHint);
+      const sheet = await loadTermSheet(doc.projectId);
+      return { ...analyzeTerms(await checkedFiles(doc, text ?? ''), sheet), path: doc.path };
+    },
+    'terms:set': async ({ doc: docHint, clusterId, canonical, variants }) => {
+      const doc = await getDocRef(docHint);
+      await updateTermSheet(doc.projectId, sheet => {
+        if (canonical) sheet[clusterId] = { canonical, variants: variants.slice(0, 10) };
+        else delete sheet[clusterId];
+      });
+    },
+    'outline:get': async ({ text, doc }) => outlineEntries(await getDocRef(doc), text ?? ''),
+    'outline:summarize': async ({ text, sectionId, doc: docHint }, { port }) => {
+      const doc = await getDocRef(docHint);
+      await summarizeSection(doc, text ?? '', sectionId, port.sender?.tab?.id);
+      return outlineEntries(doc, text ?? '');
+    },
+    'ping-endpoint': async () => {
+      try {
+        const provider = createProvider(await getSettings());
+        return await provider.ping();
+      } catch {
+        return false;
       }
-    })();
-    return true; // keep channel open for async sendResponse
+    },
+    'models:list': async () => createProvider(await getSettings()).models(),
+    'models:show': async ({ name }) => {
+      const provider = createProvider(await getSettings());
+      if (!provider.show) return { name };
+      return provider.show(name);
+    },
+    'models:pull': ({ name }, { emit }) => pullModel(name.trim(), emit),
+    'test-model': () => modelChat({
+      system: "You are a helpful assistant. Answer briefly.",
+      user: "What is 2+2?",
+      numPredict: 50,
+    }),
+  };
+
+  chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== PORT_NAME) return;
+    const peer = createPeer<ContentMethods, BackgroundMethods, PushStreams>(port, handlers);
+    const tabId = port.sender?.tab?.id;
+    if (tabId === undefined) return; // popup/options: requests only
+    tabPeers.set(tabId, peer);
+    for (const resolve of peerWaiters.get(tabId) ?? []) resolve();
+    peerWaiters.delete(tabId);
+    peer.onDisconnect(() => {
+      if (tabPeers.get(tabId) === peer) tabPeers.delete(tabId);
+      // The panel is gone (reload, navigation, closed tab); nobody is waiting for its jobs
+      jobs.cancel(j => j.tabId === tabId);
+    });
+  });
+  
+  // --- Context menu and keyboard shortcuts
+  // Both become a PanelCommand for the tab's panel, which runs its usual Q&A/coach/apply code
+  // on the current selection.
+  const MENU_ROOT = 'writetank';
+  const COMMANDS: Record<string, PanelCommand> = {
+    'ask': { kind: 'ask' },
+    'run-coach': { kind: 'run-coach' },
+    'toggle-panel': { kind: 'toggle-panel' },
+    'apply-result': { kind: 'apply' },
+  };
+  let menusBuilt: Promise<void> = Promise.resolve();
+
+  // Root entry with Ask/Coach and one item per prompt action; rebuilt when the actions change
+  function rebuildContextMenus(): Promise<void> {
+    menusBuilt = menusBuilt.then(async () => {
+      const { promptActions, sites } = await getSettings();
+      await chrome.contextMenus.removeAll();
+      const base: Pick<chrome.contextMenus.CreateProperties, 'contexts' | 'documentUrlPatterns'> = {
+        contexts: ['selection', 'editable'],
+        documentUrlPatterns: sitePatterns(sites),
+      };
+      const create = (props: chrome.contextMenus.CreateProperties) =>
+        chrome.contextMenus.create(props, () => void chrome.runtime.lastError);
+      create({ id: MENU_ROOT, title: 'WriteTank', ...base });
+      create({ id: 'wt:ask', parentId: MENU_ROOT, title: 'Ask WriteTank…', ...base });
+      create({ id: 'wt:coach', parentId: MENU_ROOT, title: 'Coach this', contexts: ['selection'], documentUrlPatterns: base.documentUrlPatterns });
+      if (promptActions.length) create({ id: 'wt:sep', parentId: MENU_ROOT, type: 'separator', ...base });
+      for (const a of promptActions) create({ id: `wt:action:${a.id}`, parentId: MENU_ROOT, title: a.label, ...base });
+    }).catch(e => console.warn('WriteTank: context menus', e));
+    return menusBuilt;
+  }
+
+  async function sendPanelCommand(tabId: number, command: PanelCommand) {
+    const peer = await tabPeer(tabId);
+    if (!peer) return;
+    await peer.call('command', command).catch(e => console.warn('WriteTank: command failed', command.kind, e));
+  }
+
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    if (!tab?.id) return;
+    const id = String(info.menuItemId);
+    if (id === 'wt:ask') sendPanelCommand(tab.id, { kind: 'ask' });
+    else if (id === 'wt:coach') sendPanelCommand(tab.id, { kind: 'coach-selection', selection: info.selectionText ?? '' });
+    else if (id.startsWith('wt:action:')) sendPanelCommand(tab.id, { kind: 'action', actionId: id.slice('wt:action:'.length) });
+  });
+
+  chrome.commands.onCommand.addListener(async (name, tab) => {
+    const command = COMMANDS[name];
+    if (!command) return;
+    const { sites } = await getSettings();
+    const tabId = siteFor(tab?.url, sites) ? tab?.id : (await getActiveEditorTab())?.id;
+    if (tabId) sendPanelCommand(tabId, command);
   });
   
   // --- Alarm tick → auto-coach
   chrome.alarms.onAlarm.addListener(async (alarm) => {
     if (alarm.name !== 'writetank:tick') return;
-    const { paused } = await getSettings();
-    if (paused) return;
-    const tab = await getActiveOverleafTab();
+    const { paused, coachMode } = await getSettings();
+    if (paused || coachMode !== 'interval') return;
+    const tab = await getActiveEditorTab();
     if (!tab?.id) return;
-    await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: 'Scanning visible text…' }).catch(() => {});
-    let sample: any = await chrome.tabs.sendMessage(tab.id, { cmd: 'grabText', mode: 'visible' }).catch(() => null);
-    let source = 'visible';
-    if (!sample?.text) {
-      sample = await chrome.tabs.sendMessage(tab.id, { cmd: 'grabText' }).catch(() => null);
-      source = 'fallback-full';
-    }
-    if (!sample?.text) return;
-    await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: `Read ${sample.text.length} chars from ${source === 'visible' ? 'visible area' : 'full editor'}…` }).catch(() => {});
-    // Fire-and-forget summary cache update
-    maybeUpdateSummary(sample.text).catch(() => {});
+    const peer = await tabPeer(tab.id);
+    if (!peer) return;
+    // Nothing new on screen since a previous run: skip without touching the panel
+    const visible = await peer.call('grabText', { mode: 'visible' }).catch(() => null);
+    if (visible?.text && await alreadyCoached(await getDocRef(visible.doc), visible.text)) return;
+    const stream = peer.open('coach');
     try {
-      await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: 'Thinking…' }).catch(() => {});
-      const out = await ollamaChat({
-        system: SYSTEM_PROMPT,
-        user: COACH_PROMPT(trimChars(sample.text, 1500)),
-        numPredict: 200,
-        numCtx: 2048,
-      });
-      const safeOut = (out && out.trim()) ? out : 'No substantial issues detected. Keep going!';
-      const completed = ensureCompleteSentences(safeOut);
-      const finalOut = ensureLatexCompleteness(completed);
-      await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:answer', text: finalOut, updatedAt: Date.now() });
-    } catch {
+      // Lowest user-facing priority: Q&A or a manual run preempts it (the next tick tries again)
+      stream.done(await coachTab({ tabId: tab.id, priority: PRIORITY.auto, preemptible: true, emit: stream.emit }));
+    } catch (e) {
+      if (isAbortError(e)) { stream.done({ text: '', stopped: true, updatedAt: Date.now() }); return; }
       // silently ignore on tick, but try to inform UI
-      await chrome.tabs.sendMessage(tab.id, { cmd: 'coach:status', text: '(error) Model unavailable' }).catch(() => {});
+      stream.error('Model unavailable');
     }
   });
\ No newline at end of file
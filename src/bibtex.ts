@@ -0,0 +1,217 @@
+// WriteTank — BibTeX reference index and citation checks
+// - Parses the project's .bib files into entries (key, title, authors, year, abstract)
+// - Ranks entries against a claim by shared terms, weighting title words highest
+// - Finds \cite-family keys in text: placeholders (TODO) get ranked suggestions,
+//   keys that no .bib defines are flagged
+// Pure helpers; the background stores the index in chrome.storage.local.
+
+import { tokenize } from './project.ts';
+
+export type BibEntry = {
+  key: string;
+  type: string;     // article, inproceedings, …
+  title: string;
+  authors: string;  // as written in the .bib ("Last, First and …")
+  year: string;
+  abstract: string;
+  path: string;     // .bib file it came from
+};
+
+export type BibIndex = { updatedAt: number; entries: BibEntry[] };
+
+export type RankedReference = { key: string; title: string; authors: string; year: string; score: number };
+
+export type CitationSuggestion = {
+  claim: string;   // the sentence that needs a citation (LaTeX stripped)
+  line: number;    // 1-based, in `source`
+  source: 'answer' | 'document';
+  candidates: RankedReference[];
+};
+
+export type UnknownCitation = { key: string; line: number; source: 'answer' | 'document' };
+
+export type CitationReport = { suggestions: CitationSuggestion[]; unknownKeys: UnknownCitation[] };
+
+export function bibIndexKey(projectId: string) {
+  return `wt:bib:${projectId}`;
+}
+
+// Keys meaning "a citation goes here" rather than a real entry
+const PLACEHOLDER_KEY = /^(?:todo|tbd|\?+|citation|cite|xxx|ref)$/i;
+const CITE_COMMAND = /\\(?:cite[a-z]*|[Pp]arencite|[Tt]extcite|[Aa]utocite|footcite|nocite)\*?(?:\s*\[[^\]]*\]){0,2}\s*\{([^}]*)\}/g;
+const SKIP_TYPES = /^(?:comment|preamble|string)$/i;
+
+// --- Parsing
+
+// Field value: {…} with nesting, "…" or a bare word/number; returns the raw value and end index
+function readValue(s: string, i: number): { value: string; end: number } {
+  while (/\s/.test(s[i] ?? '')) i++;
+  if (s[i] === '{' || s[i] === '"') {
+    // "…" may hold {…} groups; it ends at a quote outside any group
+    const quoted = s[i] === '"';
+    let depth = quoted ? 0 : 1;
+    for (let j = i + 1; j < s.length; j++) {
+      const c = s[j];
+      if (c === '\\') { j++; continue; }
+      if (c === '{') depth++;
+      else if (c === '}' && --depth === 0 && !quoted) return { value: s.slice(i + 1, j), end: j + 1 };
+      else if (c === '"' && quoted && depth === 0) return { value: s.slice(i + 1, j), end: j + 1 };
+    }
+    return { value: s.slice(i + 1), end: s.length };
+  }
+  const m = /^[^,}\s#]*/.exec(s.slice(i))!;
+  return { value: m[0], end: i + m[0].length };
+}
+
+// Strip braces and common accent/markup commands for display and matching
+export function cleanBibText(s: string): string {
+  return s
+    .replace(/\\(?:textit|textbf|emph|mathrm|textrm)\s*\{([^{}]*)\}/g, '$1')
+    .replace(/\\["'`^~=.uvHckr]\s*\{?([A-Za-z])\}?/g, '$1')
+    .replace(/\\([A-Za-z]+)\s*/g, '$1')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function parseBibtex(text: string, path: string): BibEntry[] {
+  const entries: BibEntry[] = [];
+  const re = /@([A-Za-z]+)\s*[{(]\s*([^,\s]+)\s*,/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    if (SKIP_TYPES.test(m[1])) continue;
+    const fields: Record<string, string> = {};
+    let i = m.index + m[0].length;
+    // fields: name = value [# value]… , until the entry's closing brace
+    while (i < text.length) {
+      const f = /^\s*([A-Za-z][\w-]*)\s*=\s*/.exec(text.slice(i, i + 200));
+      if (!f) break;
+      i += f[0].length;
+      let value = '';
+      while (true) {
+        const v = readValue(text, i);
+        value += v.value;
+        i = v.end;
+        const cat = /^\s*#\s*/.exec(text.slice(i, i + 20));
+        if (!cat) break;
+        i += cat[0].length;
+      }
+      fields[f[1].toLowerCase()] = value;
+      const sep = /^\s*,?/.exec(text.slice(i, i + 20))!;
+      i += sep[0].length;
+    }
+    re.lastIndex = Math.max(re.lastIndex, i);
+    entries.push({
+      key: m[2],
+      type: m[1].toLowerCase(),
+      title: cleanBibText(fields.title ?? fields.booktitle ?? ''),
+      authors: cleanBibText(fields.author ?? fields.editor ?? ''),
+      year: cleanBibText(fields.year ?? (fields.date ?? '').slice(0, 4)),
+      abstract: cleanBibText(fields.abstract ?? '').slice(0, 1200),
+      path,
+    });
+  }
+  return entries;
+}
+
+// --- Ranking
+
+// Entries sharing the most (rare) terms with the claim; title and keyword hits count double.
+// Scores are in [0, 1]: the share of the claim's term weight an entry covers.
+export function rankReferences(query: string, entries: BibEntry[], limit = 5): RankedReference[] {
+  const q = tokenize(query);
+  if (q.size === 0 || entries.length === 0) return [];
+  const docs = entries.map(e => ({
+    e,
+    title: tokenize(e.title),
+    body: tokenize(`${e.abstract} ${e.authors} ${e.year} ${e.key.replace(/[^A-Za-z0-9]+/g, ' ')}`),
+  }));
+  // Inverse document frequency over the bibliography: common words say little
+  const df = new Map<string, number>();
+  for (const d of docs) for (const w of new Set([...d.title, ...d.body])) df.set(w, (df.get(w) ?? 0) + 1);
+  const idf = (w: string) => Math.log(1 + docs.length / (df.get(w) ?? 0.5));
+  let total = 0;
+  for (const w of q) total += 2 * idf(w);
+  const ranked: RankedReference[] = [];
+  for (const d of docs) {
+    let score = 0;
+    for (const w of q) {
+      if (d.title.has(w)) score += 2 * idf(w);
+      else if (d.body.has(w)) score += idf(w);
+    }
+    if (score > 0) ranked.push({ key: d.e.key, title: d.e.title, authors: d.e.authors, year: d.e.year, score: score / total });
+  }
+  return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// Compact list for prompts: "key — Title (First author, Year)"
+export function referencesPrompt(refs: RankedReference[]): string {
+  return refs.map(r => {
+    const first = r.authors.split(/\s+and\s+/i)[0]?.split(',')[0]?.trim();
+    const meta = [first && `${first}${/\band\b/i.test(r.authors) ? ' et al.' : ''}`, r.year].filter(Boolean).join(', ');
+    return `${r.key} — ${r.title}${meta ? ` (${meta})` : ''}`;
+  }).join('\n');
+}
+
+// --- Citation checks
+
+export type CiteUse = { key: string; offset: number; line: number };
+
+// Every key used by a \cite-family command, in order
+export function findCitations(text: string): CiteUse[] {
+  const out: CiteUse[] = [];
+  for (const m of text.matchAll(CITE_COMMAND)) {
+    const line = text.slice(0, m.index).split('\n').length;
+    for (const key of m[1].split(',').map(k => k.trim())) out.push({ key, offset: m.index!, line });
+  }
+  return out;
+}
+
+export function isPlaceholderKey(key: string): boolean {
+  return !key || PLACEHOLDER_KEY.test(key);
+}
+
+// The sentence around `offset`, without LaTeX commands, for matching and display
+function sentenceAt(text: string, offset: number): string {
+  const before = text.slice(0, offset);
+  const start = Math.max(before.lastIndexOf('. '), before.lastIndexOf('\n\n'), before.lastIndexOf('\\item')) + 1;
+  const endRel = text.slice(offset).search(/\.\s|\n\n|\\item/);
+  const raw = text.slice(start, endRel < 0 ? text.length : offset + endRel + 1);
+  return raw
+    .replace(CITE_COMMAND, '')
+    .replace(/\\[A-Za-z]+\*?/g, ' ')
+    .replace(/[{}$~]/g, ' ')
+    .replace(/^\s*item\b/, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,;:])/g, '$1')
+    .trim()
+    .slice(0, 240);
+}
+
+// Suggestions for placeholder citations and flags for unknown keys, over a model
+// answer and (optionally) the document text it was about
+export function citationReport(answer: string, entries: BibEntry[], document = '', limit = 3): CitationReport {
+  const known = new Set(entries.map(e => e.key));
+  const suggestions: CitationSuggestion[] = [];
+  const unknownKeys: UnknownCitation[] = [];
+  const flagged = new Set<string>();
+  const scan = (text: string, source: 'answer' | 'document') => {
+    const seenClaims = new Set<string>();
+    for (const use of findCitations(text)) {
+      if (isPlaceholderKey(use.key)) {
+        const claim = sentenceAt(text, use.offset);
+        if (!claim || seenClaims.has(claim)) continue;
+        seenClaims.add(claim);
+        const candidates = rankReferences(claim, entries, limit);
+        if (candidates.length) suggestions.push({ claim, line: use.line, source, candidates });
+      } else if (entries.length && !known.has(use.key) && !flagged.has(`${source}:${use.key}`)) {
+        // Without any .bib captured every key would look unknown, so only flag with an index
+        flagged.add(`${source}:${use.key}`);
+        unknownKeys.push({ key: use.key, line: use.line, source });
+      }
+    }
+  };
+  scan(answer, 'answer');
+  if (document) scan(document, 'document');
+  return { suggestions, unknownKeys };
+}
@@ -0,0 +1,76 @@
+// WriteTank — Page-world bridge protocol (types only)
+// The bridge runs in the page's MAIN world so it can reach Overleaf's CodeMirror 6
+// EditorView (or Ace editor, or a plain textarea/contenteditable on other sites); the content
+// script talks to it via window.postMessage.
+// Keep this module free of runtime values: bridge.ts must not import anything at runtime.
+
+export type EditorKind = 'cm6' | 'ace' | 'textarea';
+
+// Which editor the bridge talks to, set per site; 'auto' takes the first one found
+export type EditorAdapter = 'auto' | EditorKind;
+
+// One selection range; lines are 1-based, columns 0-based (like CodeMirror's doc.lineAt)
+export type SelectionRange = {
+  from: number;
+  to: number;
+  fromLine: number;
+  fromCol: number;
+  toLine: number;
+  toCol: number;
+  text: string;
+};
+
+export type DocSnapshot = {
+  editor: EditorKind;
+  text: string;                // the complete document, not just rendered lines
+  selections: SelectionRange[]; // main selection first
+  visibleFromLine: number;     // first line currently in the viewport
+  visibleToLine: number;       // last line currently in the viewport
+};
+
+// Replace [from, to) with `insert` as one editor transaction (lands in the editor's undo history).
+// `expect` guards against edits made since the preview: the range must still hold this text.
+export type ApplyEdit = { from: number; to: number; insert: string; expect: string };
+
+// A finding shown inside the editor: underline, gutter marker and hover card (CodeMirror 6 only).
+// Offsets are those of the document when sent; the bridge maps them through later edits.
+export type AnnotationGroup = 'coach' | 'style' | 'refs';
+export type AnnotationSeverity = 'error' | 'warning' | 'info';
+export type Annotation = {
+  id: string;     // unique within its group; echoed back with actions
+  from: number;
+  to: number;
+  severity: AnnotationSeverity;
+  label: string;  // badge on the hover card, e.g. "Coach · Clarity"
+  message: string;
+  fix?: string;   // replacement for [from, to), offered as "Apply fix"
+};
+
+export type BridgeRequest =
+  | { source: 'writetank:content'; id: number; type: 'configure'; adapter: EditorAdapter }
+  | { source: 'writetank:content'; id: number; type: 'doc' }
+  | { source: 'writetank:content'; id: number; type: 'apply'; edit: ApplyEdit }
+  | { source: 'writetank:content'; id: number; type: 'reveal'; line: number } // select a 1-based line and scroll to it
+  | { source: 'writetank:content'; id: number; type: 'select'; from: number; to: number } // select [from, to) and scroll to it
+  | { source: 'writetank:content'; id: number; type: 'annotate'; group: AnnotationGroup; annotations: Annotation[] }; // replace a group's annotations
+
+// A request as the caller writes it; the client adds source + id
+type WithoutEnvelope<T> = T extends unknown ? Omit<T, 'source' | 'id'> : never;
+export type BridgeCall = WithoutEnvelope<BridgeRequest>;
+
+export type BridgeResponse = {
+  source: 'writetank:bridge';
+  id: number;
+  ok: boolean;
+  doc?: DocSnapshot;
+  error?: string;
+};
+
+// Sent by the bridge on its own when the user acts on an annotation's hover card
+export type BridgeEvent = {
+  source: 'writetank:bridge-event';
+  type: 'annotation';
+  action: 'apply' | 'dismiss';
+  group: AnnotationGroup;
+  id: string;
+};
@@ -0,0 +1,538 @@
+// runs in the page (MAIN world) next to Overleaf's editor
+
+// WriteTank — Page-world Bridge
+// - Reads the real CodeMirror 6 EditorView state (or Ace session), which the
+//   isolated content script cannot see; on other sites, a textarea or contenteditable
+//   (the site's editor adapter picks which)
+// - Answers content-script requests posted on window with full doc + selections
+// - Applies edits through the editor's own transactions so Undo works as usual
+// - Jumps to a line (Checks view) or a span (coach finding anchors) by selecting it and
+//   scrolling it into view
+// - Shows findings inside the editor (CodeMirror 6): underlines, gutter markers and hover cards
+//   with Apply fix / Dismiss, kept on their text through later edits
+// NOTE: type-only imports here; a runtime import would turn this into a loader
+// that needs chrome.runtime, which does not exist in the MAIN world.
+
+import type {
+  Annotation, AnnotationGroup, AnnotationSeverity, ApplyEdit, BridgeEvent, BridgeRequest, BridgeResponse, DocSnapshot, EditorAdapter,
+  EditorKind, SelectionRange,
+} from './bridge-protocol.ts';
+
+// CodeMirror 6 attaches its view to the content DOM as `cmView` (see EditorView.findFromDOM)
+function findCodeMirrorView(): any {
+  const content = document.querySelector('.cm-content') as any;
+  return content?.cmView?.view ?? null;
+}
+
+function findAceEditor(): any {
+  const ace = (window as any).ace;
+  const el = document.querySelector('.ace_editor');
+  if (!ace?.edit || !el) return null;
+  try {
+    return ace.edit(el);
+  } catch {
+    return null;
+  }
+}
+
+function snapshotCodeMirror(view: any): DocSnapshot {
+  const state = view.state;
+  const doc = state.doc;
+  const toRange = (from: number, to: number): SelectionRange => {
+    const a = doc.lineAt(from);
+    const b = doc.lineAt(to);
+    return {
+      from, to,
+      fromLine: a.number, fromCol: from - a.from,
+      toLine: b.number, toCol: to - b.from,
+      text: state.sliceDoc(from, to),
+    };
+  };
+  const main = state.selection.main;
+  const rest = state.selection.ranges.filter((r: any) => r !== main);
+  const visible = view.visibleRanges?.length ? view.visibleRanges : [view.viewport];
+  return {
+    editor: 'cm6',
+    text: doc.toString(),
+    selections: [main, ...rest].map((r: any) => toRange(r.from, r.to)),
+    visibleFromLine: doc.lineAt(visible[0].from).number,
+    visibleToLine: doc.lineAt(visible[visible.length - 1].to).number,
+  };
+}
+
+function snapshotAce(editor: any): DocSnapshot {
+  const session = editor.session;
+  const docObj = session.getDocument();
+  const ranges: any[] = editor.selection.getAllRanges?.() ?? [editor.getSelectionRange()];
+  return {
+    editor: 'ace',
+    text: editor.getValue(),
+    selections: ranges.map((r: any) => ({
+      from: docObj.positionToIndex(r.start),
+      to: docObj.positionToIndex(r.end),
+      fromLine: r.start.row + 1, fromCol: r.start.column,
+      toLine: r.end.row + 1, toCol: r.end.column,
+      text: session.getTextRange(r),
+    })),
+    visibleFromLine: editor.getFirstVisibleRow() + 1,
+    visibleToLine: editor.getLastVisibleRow() + 1,
+  };
+}
+
+// --- Plain text fields (other sites' editors)
+// The field the user worked in last: clicking the panel moves focus, so the active element is not it
+let lastField: HTMLElement | null = null;
+
+function isTextField(el: unknown): el is HTMLElement {
+  if (!(el instanceof HTMLElement) || el.closest('#wt-panel')) return false;
+  return el instanceof HTMLTextAreaElement || el.isContentEditable;
+}
+
+document.addEventListener('focusin', e => {
+  if (isTextField(e.target)) lastField = e.target;
+}, true);
+
+// Otherwise the largest one on the page
+function findTextField(): HTMLElement | null {
+  if (lastField?.isConnected) return lastField;
+  const area = (el: HTMLElement) => el.offsetWidth * el.offsetHeight;
+  const fields = Array.from(document.querySelectorAll<HTMLElement>('textarea, [contenteditable]')).filter(isTextField);
+  return fields.sort((a, b) => area(b) - area(a))[0] ?? null;
+}
+
+// A contenteditable's text (a newline per <br> and around block elements) and where each text
+// node starts in it, to turn offsets back into DOM positions
+type FlatText = { text: string; nodes: { node: Text; start: number }[] };
+const BLOCK_TAGS = /^(DIV|P|LI|PRE|BLOCKQUOTE|TR|H[1-6])$/;
+
+function flatten(root: HTMLElement): FlatText {
+  const flat: FlatText = { text: '', nodes: [] };
+  const walk = (parent: Node) => {
+    for (const child of Array.from(parent.childNodes)) {
+      if (child instanceof Text) {
+        flat.nodes.push({ node: child, start: flat.text.length });
+        flat.text += child.data;
+      } else if (child instanceof HTMLElement) {
+        if (child.tagName === 'BR') { flat.text += '\n'; continue; }
+        const block = BLOCK_TAGS.test(child.tagName);
+        if (block && flat.text && !flat.text.endsWith('\n')) flat.text += '\n';
+        walk(child);
+        if (block && !flat.text.endsWith('\n')) flat.text += '\n';
+      }
+    }
+  };
+  walk(root);
+  return flat;
+}
+
+function flatOffset(flat: FlatText, node: Node, offset: number): number {
+  if (node instanceof Text) {
+    const n = flat.nodes.find(n => n.node === node);
+    if (n) return n.start + offset;
+  }
+  // An element boundary: where the first text node after it starts
+  const range = document.createRange();
+  range.setStart(node, offset);
+  return flat.nodes.find(n => range.comparePoint(n.node, 0) >= 0)?.start ?? flat.text.length;
+}
+
+function domPoint(flat: FlatText, root: HTMLElement, offset: number): { node: Node; offset: number } {
+  for (let i = flat.nodes.length - 1; i >= 0; i--) {
+    const n = flat.nodes[i];
+    if (n.start <= offset) return { node: n.node, offset: Math.min(offset - n.start, n.node.length) };
+  }
+  return { node: root, offset: 0 };
+}
+
+function fieldText(el: HTMLElement): string {
+  return el instanceof HTMLTextAreaElement ? el.value : flatten(el).text;
+}
+
+function textRange(text: string, from: number, to: number): SelectionRange {
+  const before = text.slice(0, from).split('\n');
+  const through = text.slice(0, to).split('\n');
+  return {
+    from, to,
+    fromLine: before.length, fromCol: before[before.length - 1].length,
+    toLine: through.length, toCol: through[through.length - 1].length,
+    text: text.slice(from, to),
+  };
+}
+
+function snapshotField(el: HTMLElement): DocSnapshot {
+  let text: string, from: number, to: number;
+  let visibleFromLine = 1, visibleToLine: number;
+  if (el instanceof HTMLTextAreaElement) {
+    text = el.value;
+    from = el.selectionStart;
+    to = el.selectionEnd;
+    const lineHeight = parseFloat(getComputedStyle(el).lineHeight) || 16;
+    visibleFromLine = Math.floor(el.scrollTop / lineHeight) + 1;
+    visibleToLine = visibleFromLine + Math.ceil(el.clientHeight / lineHeight);
+  } else {
+    // No line geometry here: the whole field counts as visible
+    const flat = flatten(el);
+    text = flat.text;
+    const sel = window.getSelection();
+    const range = sel?.rangeCount && el.contains(sel.getRangeAt(0).commonAncestorContainer) ? sel.getRangeAt(0) : null;
+    from = range ? flatOffset(flat, range.startContainer, range.startOffset) : 0;
+    to = range ? flatOffset(flat, range.endContainer, range.endOffset) : from;
+    visibleToLine = text.split('\n').length;
+  }
+  return { editor: 'textarea', text, selections: [textRange(text, from, to)], visibleFromLine, visibleToLine };
+}
+
+function selectField(el: HTMLElement, from: number, to: number) {
+  el.focus({ preventScroll: true });
+  if (el instanceof HTMLTextAreaElement) {
+    el.setSelectionRange(from, to);
+    const lineHeight = parseFloat(getComputedStyle(el).lineHeight) || 16;
+    el.scrollTop = Math.max(0, (el.value.slice(0, from).split('\n').length - 3) * lineHeight);
+    return;
+  }
+  const flat = flatten(el);
+  const a = domPoint(flat, el, from);
+  const b = domPoint(flat, el, to);
+  const range = document.createRange();
+  range.setStart(a.node, a.offset);
+  range.setEnd(b.node, b.offset);
+  const sel = window.getSelection();
+  sel?.removeAllRanges();
+  sel?.addRange(range);
+  (a.node instanceof HTMLElement ? a.node : a.node.parentElement)?.scrollIntoView({ block: 'center' });
+}
+
+// insertText keeps the page's own undo and input handling; a textarea falls back to setRangeText
+function applyField(el: HTMLElement, edit: ApplyEdit) {
+  if (fieldText(el).slice(edit.from, edit.to) !== edit.expect) throw new Error('Text changed since preview; try again');
+  selectField(el, edit.from, edit.to);
+  if (document.execCommand('insertText', false, edit.insert)) return;
+  if (!(el instanceof HTMLTextAreaElement)) throw new Error('This editor did not accept the edit');
+  el.setRangeText(edit.insert, edit.from, edit.to, 'select');
+  el.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+// --- Editor adapters
+// The site's choice, sent by the content script; 'auto' tries CodeMirror 6, Ace, then a text field
+let adapter: EditorAdapter = 'auto';
+
+type Editor = { kind: 'cm6'; view: any } | { kind: 'ace'; ace: any } | { kind: 'textarea'; el: HTMLElement };
+
+function findEditor(): Editor | null {
+  const allowed = (kind: EditorKind) => adapter === 'auto' || adapter === kind;
+  const view = allowed('cm6') ? findCodeMirrorView() : null;
+  if (view) return { kind: 'cm6', view };
+  const ace = allowed('ace') ? findAceEditor() : null;
+  if (ace) return { kind: 'ace', ace };
+  const el = allowed('textarea') ? findTextField() : null;
+  if (el) return { kind: 'textarea', el };
+  return null;
+}
+
+function requireEditor(): Editor {
+  const editor = findEditor();
+  if (!editor) throw new Error('No editor found');
+  return editor;
+}
+
+function snapshot(): DocSnapshot | null {
+  const editor = findEditor();
+  if (!editor) return null;
+  if (editor.kind === 'cm6') return snapshotCodeMirror(editor.view);
+  if (editor.kind === 'ace') return snapshotAce(editor.ace);
+  return snapshotField(editor.el);
+}
+
+function applyCodeMirror(view: any, edit: ApplyEdit) {
+  if (view.state.sliceDoc(edit.from, edit.to) !== edit.expect) throw new Error('Text changed since preview; try again');
+  view.dispatch({
+    changes: { from: edit.from, to: edit.to, insert: edit.insert },
+    selection: { anchor: edit.from, head: edit.from + edit.insert.length },
+    scrollIntoView: true,
+    userEvent: 'input.paste',
+  });
+  view.focus();
+}
+
+function applyAce(editor: any, edit: ApplyEdit) {
+  const doc = editor.session.getDocument();
+  const Range = (window as any).ace.require('ace/range').Range;
+  const start = doc.indexToPosition(edit.from, 0);
+  const end = doc.indexToPosition(edit.to, 0);
+  const range = new Range(start.row, start.column, end.row, end.column);
+  if (editor.session.getTextRange(range) !== edit.expect) throw new Error('Text changed since preview; try again');
+  const endPos = editor.session.replace(range, edit.insert);
+  editor.selection.setRange(new Range(start.row, start.column, endPos.row, endPos.column));
+  editor.focus();
+}
+
+function apply(edit: ApplyEdit) {
+  const editor = requireEditor();
+  if (editor.kind === 'cm6') return applyCodeMirror(editor.view, edit);
+  if (editor.kind === 'ace') return applyAce(editor.ace, edit);
+  applyField(editor.el, edit);
+}
+
+function reveal(line: number) {
+  const editor = requireEditor();
+  if (editor.kind === 'cm6') {
+    const { view } = editor;
+    const doc = view.state.doc;
+    const l = doc.line(Math.min(Math.max(1, line), doc.lines));
+    view.dispatch({ selection: { anchor: l.from, head: l.to }, scrollIntoView: true });
+    view.focus();
+  } else if (editor.kind === 'ace') {
+    const { ace } = editor;
+    ace.gotoLine(line, 0, false);
+    ace.selection.selectLine();
+    ace.scrollToLine(line - 1, true, false, () => {});
+    ace.focus();
+  } else {
+    const lines = fieldText(editor.el).split('\n');
+    const n = Math.min(Math.max(1, line), lines.length);
+    const from = lines.slice(0, n - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    selectField(editor.el, from, from + lines[n - 1].length);
+  }
+}
+
+function select(from: number, to: number) {
+  const editor = requireEditor();
+  if (editor.kind === 'cm6') {
+    const { view } = editor;
+    const len = view.state.doc.length;
+    const a = Math.min(Math.max(0, from), len);
+    view.dispatch({ selection: { anchor: a, head: Math.min(Math.max(a, to), len) }, scrollIntoView: true });
+    view.focus();
+  } else if (editor.kind === 'ace') {
+    const { ace } = editor;
+    const doc = ace.session.getDocument();
+    const Range = (window as any).ace.require('ace/range').Range;
+    const start = doc.indexToPosition(from, 0);
+    const end = doc.indexToPosition(to, 0);
+    ace.selection.setRange(new Range(start.row, start.column, end.row, end.column));
+    ace.scrollToLine(start.row, true, false, () => {});
+    ace.focus();
+  } else {
+    const len = fieldText(editor.el).length;
+    const a = Math.min(Math.max(0, from), len);
+    selectField(editor.el, a, Math.min(Math.max(a, to), len));
+  }
+}
+
+// --- Inline annotations (CodeMirror 6)
+// Overleaf announces each editor it creates with its own CodeMirror modules and extension list
+// ('UNSTABLE_editor:extensions'); extensions pushed there become part of the editor. They have
+// to be built from those modules (a second copy of CodeMirror would not be recognized), which
+// is why this script runs at document_start. Annotations are mark decorations, so mapping them
+// through each transaction keeps them on their text while the document is edited.
+type AnnotationState = { marks: any; lines: any }; // mark decorations + one gutter marker per line
+type Tagged = Annotation & { group: AnnotationGroup };
+
+let annotations: { setGroup: any; remove: any; field: any; closeTooltips: any[] } | null = null;
+
+const SEVERITY_RANK: Record<AnnotationSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+function notify(action: BridgeEvent['action'], a: Tagged) {
+  window.postMessage({ source: 'writetank:bridge-event', type: 'annotation', action, group: a.group, id: a.id } satisfies BridgeEvent, '*');
+}
+
+function annotationExtension(CM: any): any[] {
+  const { StateEffect, StateField, RangeSet, Decoration, EditorView, GutterMarker, gutter, hoverTooltip } = CM;
+  const setGroup = StateEffect.define(); // { group, list }: replaces that group's annotations
+  const remove = StateEffect.define();   // { group, id }
+
+  class Marker extends GutterMarker {
+    severity: AnnotationSeverity;
+    tip: string;
+    constructor(severity: AnnotationSeverity, tip: string) {
+      super();
+      this.severity = severity;
+      this.tip = tip;
+    }
+    eq(other: any) {
+      return other.severity === this.severity && other.tip === this.tip;
+    }
+    toDOM() {
+      const el = document.createElement('div');
+      el.className = `wt-anno-marker wt-anno-${this.severity}`;
+      el.title = this.tip;
+      return el;
+    }
+  }
+
+  // The most severe annotation starting on a line decides its marker; the tip lists them all
+  function lineMarkers(doc: any, marks: any) {
+    const lines = new Map<number, { severity: AnnotationSeverity; tips: string[] }>();
+    marks.between(0, doc.length, (from: number, _to: number, deco: any) => {
+      const a: Tagged = deco.spec.annotation;
+      const start = doc.lineAt(from).from;
+      const line = lines.get(start);
+      if (!line) lines.set(start, { severity: a.severity, tips: [`${a.label}: ${a.message}`] });
+      else {
+        line.tips.push(`${a.label}: ${a.message}`);
+        if (SEVERITY_RANK[a.severity] < SEVERITY_RANK[line.severity]) line.severity = a.severity;
+      }
+    });
+    return RangeSet.of([...lines].map(([at, l]) => new Marker(l.severity, l.tips.join('\n')).range(at)), true);
+  }
+
+  const field = StateField.define({
+    create: (): AnnotationState => ({ marks: Decoration.none, lines: RangeSet.empty }),
+    update(value: AnnotationState, tr: any): AnnotationState {
+      let marks = value.marks.map(tr.changes);
+      for (const e of tr.effects) {
+        if (e.is(setGroup)) {
+          const { group, list } = e.value as { group: AnnotationGroup; list: Annotation[] };
+          const len = tr.state.doc.length;
+          marks = marks.update({
+            filter: (_from: number, _to: number, d: any) => d.spec.annotation.group !== group,
+            add: list
+              .filter(a => a.from >= 0 && a.from < a.to && a.to <= len)
+              .map(a => Decoration.mark({ class: `wt-anno wt-anno-${a.severity}`, annotation: { ...a, group } }).range(a.from, a.to)),
+            sort: true,
+          });
+        } else if (e.is(remove)) {
+          const { group, id } = e.value as { group: AnnotationGroup; id: string };
+          marks = marks.update({ filter: (_from: number, _to: number, d: any) => d.spec.annotation.group !== group || d.spec.annotation.id !== id });
+        }
+      }
+      if (marks === value.marks && !tr.docChanged) return value;
+      return { marks, lines: lineMarkers(tr.state.doc, marks) };
+    },
+    provide: (f: any) => EditorView.decorations.from(f, (v: AnnotationState) => v.marks),
+  });
+
+  // Where an annotation is now (it may have moved since it was shown)
+  function rangeOf(state: any, a: Tagged): { from: number; to: number } | null {
+    let found: { from: number; to: number } | null = null;
+    state.field(field).marks.between(0, state.doc.length, (from: number, to: number, d: any) => {
+      const b: Tagged = d.spec.annotation;
+      if (b.group !== a.group || b.id !== a.id) return;
+      found = { from, to };
+      return false;
+    });
+    return found;
+  }
+
+  const closeTooltips = CM.closeHoverTooltips ? [CM.closeHoverTooltips] : [];
+
+  function card(view: any, list: Tagged[]) {
+    const dom = document.createElement('div');
+    dom.className = 'wt-anno-card';
+    for (const a of list) {
+      const item = document.createElement('div');
+      item.className = `wt-anno-item wt-anno-${a.severity}`;
+      const label = document.createElement('div');
+      label.className = 'wt-anno-label';
+      label.textContent = a.label;
+      const message = document.createElement('div');
+      message.textContent = a.message;
+      item.append(label, message);
+      if (a.fix !== undefined) {
+        const fix = document.createElement('div');
+        fix.className = 'wt-anno-fix';
+        fix.textContent = `→ ${a.fix || '(delete)'}`;
+        item.appendChild(fix);
+      }
+      const actions = document.createElement('div');
+      actions.className = 'wt-anno-actions';
+      if (a.fix !== undefined) {
+        const apply = document.createElement('button');
+        apply.textContent = 'Apply fix';
+        apply.addEventListener('click', () => {
+          const at = rangeOf(view.state, a);
+          if (!at) return;
+          view.dispatch({
+            changes: { ...at, insert: a.fix },
+            effects: [remove.of({ group: a.group, id: a.id }), ...closeTooltips],
+            userEvent: 'input',
+          });
+          view.focus();
+          notify('apply', a);
+        });
+        actions.appendChild(apply);
+      }
+      const dismiss = document.createElement('button');
+      dismiss.textContent = 'Dismiss';
+      dismiss.addEventListener('click', () => {
+        view.dispatch({ effects: [remove.of({ group: a.group, id: a.id }), ...closeTooltips] });
+        notify('dismiss', a);
+      });
+      actions.appendChild(dismiss);
+      item.appendChild(actions);
+      dom.appendChild(item);
+    }
+    return dom;
+  }
+
+  const hover = hoverTooltip((view: any, pos: number, side: number) => {
+    const found: { from: number; to: number; a: Tagged }[] = [];
+    view.state.field(field).marks.between(pos, pos, (from: number, to: number, d: any) => {
+      if ((from < pos || (from === pos && side > 0)) && (to > pos || (to === pos && side < 0))) found.push({ from, to, a: d.spec.annotation });
+    });
+    if (!found.length) return null;
+    return {
+      pos: Math.min(...found.map(f => f.from)),
+      end: Math.max(...found.map(f => f.to)),
+      above: true,
+      create: () => ({ dom: card(view, found.map(f => f.a)) }),
+    };
+  }, { hideOnChange: true });
+
+  annotations = { setGroup, remove, field, closeTooltips };
+  return [field, gutter({ class: 'wt-anno-gutter', markers: (view: any) => view.state.field(field).lines }), hover];
+}
+
+window.addEventListener('UNSTABLE_editor:extensions', (e: Event) => {
+  const { CodeMirror, extensions } = (e as CustomEvent).detail ?? {};
+  if (!CodeMirror || !Array.isArray(extensions)) return;
+  // The modules come either flat or grouped by package (state, view)
+  const CM = { ...CodeMirror, ...CodeMirror.state, ...CodeMirror.view };
+  if (!CM.StateField || !CM.hoverTooltip || !CM.gutter) return;
+  try {
+    extensions.push(annotationExtension(CM));
+  } catch (err) {
+    console.warn('WriteTank: inline annotations unavailable', err);
+  }
+});
+
+function annotate(group: AnnotationGroup, list: Annotation[]) {
+  const editor = findEditor();
+  if (editor?.kind !== 'cm6') throw new Error('Inline annotations need the CodeMirror editor');
+  const { view } = editor;
+  if (!annotations || view.state.field(annotations.field, false) === undefined) {
+    throw new Error('Inline annotations are not set up in this editor (reload the page)');
+  }
+  view.dispatch({ effects: annotations.setGroup.of({ group, list }) });
+}
+
+window.addEventListener('message', (e: MessageEvent) => {
+  if (e.source !== window) return;
+  const req = e.data as BridgeRequest;
+  if (req?.source !== 'writetank:content') return;
+  const reply = (res: Omit<BridgeResponse, 'source' | 'id'>) =>
+    window.postMessage({ source: 'writetank:bridge', id: req.id, ...res } satisfies BridgeResponse, '*');
+  try {
+    if (req.type === 'configure') {
+      adapter = req.adapter;
+      reply({ ok: true });
+    } else if (req.type === 'doc') {
+      const doc = snapshot();
+      reply(doc ? { ok: true, doc } : { ok: false, error: 'No editor found' });
+    } else if (req.type === 'apply') {
+      apply(req.edit);
+      reply({ ok: true });
+    } else if (req.type === 'reveal') {
+      reveal(req.line);
+      reply({ ok: true });
+    } else if (req.type === 'select') {
+      select(req.from, req.to);
+      reply({ ok: true });
+    } else if (req.type === 'annotate') {
+      annotate(req.group, req.annotations);
+      reply({ ok: true });
+    }
+  } catch (err: any) {
+    reply({ ok: false, error: err?.message || String(err) });
+  }
+});
@@ -0,0 +1,97 @@
+// WriteTank — Context budgeting
+// - Estimates tokens from characters (the extension has no tokenizer); LaTeX markup counts extra
+// - num_ctx comes from the model's own limit (/api/show) capped by the latency preference. It is
+//   fixed per model and preference: Ollama reloads the model whenever num_ctx changes
+// - Prompt parts are filled in priority order; a part that does not fit is trimmed at a paragraph
+//   or line break, or dropped below its minimum. The report says exactly what went in.
+
+// Latency preference: a smaller window answers sooner and leaves more memory to the model
+export type ContextPreference = 'fast' | 'balanced' | 'thorough';
+
+export const CONTEXT_CAPS: Record<ContextPreference, number> = { fast: 2048, balanced: 4096, thorough: 16384 };
+
+// Assumed when the server does not report a limit (OpenAI-compatible servers, older Ollama)
+export const DEFAULT_CONTEXT_LIMIT = 4096;
+
+const MIN_CONTEXT = 1024;
+const DEFAULT_MIN_TOKENS = 64;
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  // ~4 characters per token for English prose; backslashes, braces and math symbols mostly split off
+  const symbols = text.match(/[\\{}$^_&%#]/g)?.length ?? 0;
+  return Math.ceil((text.length + symbols) / 4);
+}
+
+export function contextWindow(modelLimit: number | undefined, preference: ContextPreference): number {
+  return Math.max(MIN_CONTEXT, Math.min(modelLimit || DEFAULT_CONTEXT_LIMIT, CONTEXT_CAPS[preference]));
+}
+
+// The longest prefix of `text` within `tokens`, cut at a paragraph or line break when one is near the end
+export function fitTokens(text: string, tokens: number): string {
+  if (estimateTokens(text) <= tokens) return text;
+  let lo = 0, hi = text.length;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (estimateTokens(text.slice(0, mid)) <= tokens) lo = mid; else hi = mid - 1;
+  }
+  const cut = text.slice(0, lo);
+  const para = cut.lastIndexOf('\n\n');
+  const line = cut.lastIndexOf('\n');
+  const at = para > cut.length * 0.8 ? para : line > cut.length * 0.8 ? line : -1;
+  return (at > 0 ? cut.slice(0, at) : cut).trimEnd();
+}
+
+export type BudgetPart = {
+  id: string;
+  label: string;        // for the report, e.g. "Selection", "Summary of intro.tex"
+  text: string;
+  priority: number;     // lower is filled first
+  required?: boolean;   // never dropped; trimmed only if it alone exceeds the budget
+  whole?: boolean;      // all or nothing (e.g. an earlier turn of the thread)
+  minTokens?: number;   // a trimmed part smaller than this is dropped instead
+};
+
+export type PartStatus = 'full' | 'trimmed' | 'dropped';
+
+export type BudgetLine = { id: string; label: string; tokens: number; of: number; status: PartStatus };
+
+export type BudgetReport = {
+  numCtx: number;
+  reserved: number; // the answer (num_predict) plus the fixed prompt wording
+  used: number;     // tokens of the parts that went in
+  lines: BudgetLine[]; // in the order the parts were given
+};
+
+export type Allocation = { texts: Record<string, string>; report: BudgetReport };
+
+// Fill `numCtx - reserve` tokens with `parts`; `texts[id]` is the part as sent ('' when dropped)
+export function allocateBudget(parts: BudgetPart[], { numCtx, reserve }: { numCtx: number; reserve: number }): Allocation {
+  let left = Math.max(0, numCtx - reserve);
+  const texts: Record<string, string> = {};
+  const lines = new Map<string, BudgetLine>();
+  const order = [...parts].sort((a, b) => a.priority - b.priority || Number(!!b.required) - Number(!!a.required));
+  for (const part of order) {
+    const of = estimateTokens(part.text);
+    let text = '';
+    if (of <= left) text = part.text;
+    else if (part.required) text = fitTokens(part.text, left);
+    else if (!part.whole && left >= (part.minTokens ?? DEFAULT_MIN_TOKENS)) text = fitTokens(part.text, left);
+    const tokens = estimateTokens(text);
+    left = Math.max(0, left - tokens);
+    texts[part.id] = text;
+    lines.set(part.id, { id: part.id, label: part.label, tokens, of, status: !text && of ? 'dropped' : tokens < of ? 'trimmed' : 'full' });
+  }
+  const ordered = parts.map(p => lines.get(p.id)!);
+  return { texts, report: { numCtx, reserved: reserve, used: ordered.reduce((n, l) => n + l.tokens, 0), lines: ordered } };
+}
+
+// One line for the panel: what went in, what was cut, what was left out
+export function describeBudget(report: BudgetReport): string {
+  const shown = report.lines.filter(l => l.of > 0);
+  const fmt = (l: BudgetLine) => l.status === 'trimmed' ? `${l.label} ${l.tokens}/${l.of} (trimmed)` : `${l.label} ${l.tokens}`;
+  const kept = shown.filter(l => l.status !== 'dropped').map(fmt);
+  const dropped = shown.filter(l => l.status === 'dropped').map(l => `${l.label} (${l.of})`);
+  return `Sent ~${report.used} of ${report.numCtx - report.reserved} tokens (context ${report.numCtx}): ${kept.join(', ') || 'nothing'}`
+    + (dropped.length ? ` · dropped: ${dropped.join(', ')}` : '');
+}
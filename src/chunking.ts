@@ -0,0 +1,85 @@
+// WriteTank — LaTeX-aware chunking for map-reduce coaching
+// - Splits at \chapter/\section/\subsection headings first, then at paragraph breaks
+// - Packs small neighbours together so each chunk is close to the size budget
+
+import { paragraphs } from './project.ts';
+
+export type Chunk = {
+  title: string;     // heading the chunk sits under
+  text: string;
+  startLine: number; // 1-based line in the original text
+};
+
+const HEADING = /^\s*\\(?:part|chapter|section|subsection)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/;
+
+type Section = { title: string; startLine: number; lines: string[] };
+
+function splitSections(text: string): Section[] {
+  const lines = text.split('\n');
+  // Coach the body only: skip the preamble and anything after \end{document}
+  let first = 0, last = lines.length;
+  const begin = lines.findIndex(l => /\\begin\{document\}/.test(l));
+  if (begin >= 0) first = begin + 1;
+  const end = lines.findIndex(l => /\\end\{document\}/.test(l));
+  if (end >= first) last = end;
+
+  const sections: Section[] = [];
+  let cur: Section = { title: '(opening)', startLine: first + 1, lines: [] };
+  for (let i = first; i < last; i++) {
+    const m = lines[i].match(HEADING);
+    if (m) {
+      if (cur.lines.some(l => l.trim())) sections.push(cur);
+      cur = { title: m[1].trim() || '(untitled)', startLine: i + 1, lines: [] };
+    }
+    cur.lines.push(lines[i]);
+  }
+  if (cur.lines.some(l => l.trim())) sections.push(cur);
+  return sections;
+}
+
+// Break an oversized section at paragraph boundaries (hard cut for giant paragraphs)
+function splitSection(sec: Section, maxChars: number): Chunk[] {
+  const out: Chunk[] = [];
+  let buf = '';
+  let bufLine = sec.startLine;
+  const flush = () => {
+    if (buf.trim()) out.push({ title: sec.title, text: buf.trim(), startLine: bufLine });
+    buf = '';
+  };
+  for (const p of paragraphs(sec.lines.join('\n'))) {
+    const line = sec.startLine + p.line - 1;
+    if (buf && buf.length + p.text.length + 2 > maxChars) flush();
+    if (!buf) bufLine = line;
+    if (p.text.length > maxChars) {
+      for (let i = 0; i < p.text.length; i += maxChars) {
+        out.push({ title: sec.title, text: p.text.slice(i, i + maxChars), startLine: line });
+      }
+      continue;
+    }
+    buf += (buf ? '\n\n' : '') + p.text;
+  }
+  flush();
+  return out;
+}
+
+export function splitLatexChunks(text: string, maxChars = 2500): Chunk[] {
+  const chunks: Chunk[] = [];
+  for (const sec of splitSections(text)) {
+    const body = sec.lines.join('\n').trim();
+    if (body.length <= maxChars) chunks.push({ title: sec.title, text: body, startLine: sec.startLine });
+    else chunks.push(...splitSection(sec, maxChars));
+  }
+  // Pack short neighbours (e.g. a heading with two sentences) into one chunk
+  const packed: Chunk[] = [];
+  for (const c of chunks) {
+    const prev = packed[packed.length - 1];
+    const small = (x: Chunk) => x.text.length < maxChars / 4;
+    if (prev && (small(prev) || small(c)) && prev.text.length + c.text.length + 2 <= maxChars) {
+      prev.text += '\n\n' + c.text;
+      if (prev.title !== c.title) prev.title += `; ${c.title}`;
+    } else {
+      packed.push({ ...c });
+    }
+  }
+  return packed;
+}
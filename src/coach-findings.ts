@@ -0,0 +1,176 @@
+// WriteTank — Structured coach findings
+// - The coach answers in JSON (Ollama's `format`, or `response_format` on OpenAI-compatible
+//   servers) following COACH_REPORT_SCHEMA; replies are validated here, not trusted
+// - Each finding quotes an anchor span from the coached text, so the panel can jump to it
+// - Findings of several chunks merge without a model call: duplicates collapse, severity sorts
+// Pure helpers shared by the background and the content script.
+
+import { escapeRegExp } from './text.ts';
+
+export type FindingCategory =
+  | 'structure' | 'clarity' | 'flow' | 'concision' | 'grammar' | 'citation' | 'reference' | 'terminology';
+
+export type FindingSeverity = 'high' | 'medium' | 'low';
+
+export type CoachFinding = {
+  category: FindingCategory;
+  severity: FindingSeverity;
+  message: string;
+  fix?: string;   // replacement for the anchor (wording or LaTeX), when the advice is a local edit
+  anchor: string; // exact quote from the coached text ('' when the quote was not found there)
+};
+
+export type CoachReport = { summary: string; findings: CoachFinding[] };
+
+export const FINDING_CATEGORIES: Record<FindingCategory, string> = {
+  structure: 'Structure',
+  clarity: 'Clarity',
+  flow: 'Flow',
+  concision: 'Concision',
+  grammar: 'Grammar',
+  citation: 'Citation',
+  reference: 'Reference',
+  terminology: 'Terminology',
+};
+
+export const FINDING_SEVERITIES: Record<FindingSeverity, string> = { high: 'High', medium: 'Medium', low: 'Low' };
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+export const MAX_FINDINGS = 30;
+
+// JSON schema for the model's reply (also sent as the structured-output format)
+export const COACH_REPORT_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: Object.keys(FINDING_CATEGORIES) },
+          severity: { type: 'string', enum: Object.keys(FINDING_SEVERITIES) },
+          message: { type: 'string' },
+          fix: { type: 'string' },
+          anchor: { type: 'string' },
+        },
+        required: ['category', 'severity', 'message', 'anchor'],
+      },
+    },
+  },
+  required: ['summary', 'findings'],
+};
+
+// --- Validation
+export type Parsed = { report: CoachReport; error?: undefined } | { report?: undefined; error: string };
+
+function isCategory(v: unknown): v is FindingCategory {
+  return typeof v === 'string' && v in FINDING_CATEGORIES;
+}
+function isSeverity(v: unknown): v is FindingSeverity {
+  return typeof v === 'string' && v in FINDING_SEVERITIES;
+}
+
+export function validateCoachReport(value: unknown): Parsed {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { error: 'the reply must be a JSON object' };
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.summary !== 'string') return { error: '"summary" must be a string' };
+  if (!Array.isArray(obj.findings)) return { error: '"findings" must be an array' };
+  const findings: CoachFinding[] = [];
+  for (const [i, raw] of obj.findings.entries()) {
+    const f = raw as Record<string, unknown>;
+    if (!f || typeof f !== 'object') return { error: `findings[${i}] must be an object` };
+    if (!isCategory(f.category)) return { error: `findings[${i}].category must be one of ${Object.keys(FINDING_CATEGORIES).join(', ')}` };
+    if (!isSeverity(f.severity)) return { error: `findings[${i}].severity must be one of high, medium, low` };
+    if (typeof f.message !== 'string' || !f.message.trim()) return { error: `findings[${i}].message must be a non-empty string` };
+    if (typeof f.anchor !== 'string') return { error: `findings[${i}].anchor must be a string` };
+    if (f.fix !== undefined && typeof f.fix !== 'string') return { error: `findings[${i}].fix must be a string` };
+    const fix = typeof f.fix === 'string' ? f.fix.trim() : '';
+    findings.push({ category: f.category, severity: f.severity, message: f.message.trim(), ...(fix ? { fix } : {}), anchor: f.anchor.trim() });
+  }
+  return { report: { summary: obj.summary.trim(), findings } };
+}
+
+// The model's reply as a report; tolerates a ```json fence or chatter around the object
+export function parseCoachReport(reply: string): Parsed {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end < start) return { error: 'no JSON object in the reply' };
+  let value: unknown;
+  try {
+    value = JSON.parse(reply.slice(start, end + 1));
+  } catch (e: any) {
+    return { error: `invalid JSON (${e?.message || e})` };
+  }
+  return validateCoachReport(value);
+}
+
+// --- Anchors
+export type AnchorRange = { from: number; to: number };
+
+// Where `anchor` occurs in `text`: exactly, else with any whitespace between its words
+// (models re-wrap lines), ignoring case. An occurrence inside `region` (where the coached text
+// was) wins, else the one nearest it; by default the first.
+export function locateAnchor(text: string, anchor: string, region: AnchorRange = { from: 0, to: 0 }): AnchorRange | null {
+  const quote = anchor.trim();
+  if (quote.length < 3) return null;
+  const words = quote.split(/\s+/).map(escapeRegExp);
+  const exact = new RegExp(escapeRegExp(quote), 'g');
+  const loose = new RegExp(words.join('\\s+'), 'gi');
+  for (const re of [exact, loose]) {
+    const distance = (at: number) => (at < region.from ? region.from - at : at > region.to ? at - region.to : 0);
+    let best: AnchorRange | null = null;
+    for (const m of text.matchAll(re)) {
+      const hit = { from: m.index!, to: m.index! + m[0].length };
+      if (!best || distance(hit.from) < distance(best.from)) best = hit;
+    }
+    if (best) return best;
+  }
+  return null;
+}
+
+// Keep anchors only where they quote `text`; an unfound quote becomes '' (the finding stays)
+export function checkAnchors(report: CoachReport, text: string): CoachReport {
+  return { ...report, findings: report.findings.map(f => (f.anchor && !locateAnchor(text, f.anchor) ? { ...f, anchor: '' } : f)) };
+}
+
+// --- Merging and rendering
+function normalized(message: string) {
+  return message.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// One report from per-chunk reports: repeated advice once, most severe first, chunk order within a severity
+export function mergeReports(parts: { title: string; report: CoachReport }[], limit = MAX_FINDINGS): CoachReport {
+  const seen = new Set<string>();
+  const findings: CoachFinding[] = [];
+  for (const { report } of parts) {
+    for (const f of report.findings) {
+      const key = `${f.category}:${normalized(f.message)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      findings.push(f);
+    }
+  }
+  findings.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+  const summary = parts.length === 1
+    ? parts[0].report.summary
+    : parts.filter(p => p.report.summary).map(p => `${p.title}: ${p.report.summary}`).join('\n');
+  return { summary, findings: findings.slice(0, limit) };
+}
+
+// The report as LaTeX (coach history, copy/preview); one \item per finding
+export function reportToLatex(report: CoachReport): string {
+  const lines = report.summary ? [`\\paragraph{Summary} ${report.summary.replace(/\n/g, ' ')}`] : [];
+  if (report.findings.length) {
+    lines.push('\\begin{itemize}');
+    for (const f of report.findings) {
+      const fix = f.fix ? ` Suggested: ${f.fix}` : '';
+      lines.push(`  \\item \\textbf{${FINDING_SEVERITIES[f.severity]} · ${FINDING_CATEGORIES[f.category]}} ${f.message}${fix}`);
+    }
+    lines.push('\\end{itemize}');
+  } else {
+    lines.push('No issues found.');
+  }
+  return lines.join('\n');
+}
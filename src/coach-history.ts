@@ -0,0 +1,140 @@
+// WriteTank — Coach history
+// - Every finished coach run is kept per document (project id + file path), newest first,
+//   with the hash of the text it was based on
+// - A report is split into suggestion items that can be marked resolved or dismissed
+// - Item ids come from the normalized suggestion text, so the same advice in a later run
+//   is recognized (repeated vs new) and a dismissal carries over
+
+import { simpleHash, type DocRef } from './project.ts';
+import { FINDING_CATEGORIES, type AnchorRange, type CoachReport } from './coach-findings.ts';
+
+// visible area, selection/section, whole file, paragraphs changed since the last edit-driven run
+export type CoachScope = 'visible' | 'excerpt' | 'document' | 'edit';
+
+export type CoachItemStatus = 'open' | 'resolved' | 'dismissed';
+
+export type CoachItem = {
+  id: string;
+  group: string;   // the \paragraph{…} heading the item appeared under ('' if none)
+  text: string;
+  status: CoachItemStatus;
+  statusAt?: number;
+};
+
+export type CoachRun = {
+  id: string;
+  at: number;
+  scope: CoachScope;
+  path: string;
+  snippetHash: string; // of the coached text; equal hashes mean nothing changed in between
+  chars: number;
+  text: string;        // the full report as LaTeX
+  items: CoachItem[];
+  report?: CoachReport; // the structured findings behind `text` (runs since JSON coaching)
+  region?: AnchorRange; // where the coached text was in the file, when known (anchors are looked up there)
+};
+
+export type CoachRunDiff = { added: number; repeated: number; dropped: number };
+
+export const MAX_COACH_RUNS = 40;
+
+export function coachHistoryKey(doc: DocRef) {
+  return `wt:coach:${doc.projectId}:${doc.path}`;
+}
+
+export function itemId(text: string): string {
+  return simpleHash(text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim());
+}
+
+function cleanItem(text: string): string {
+  return text
+    .replace(/\\(?:textbf|textit|emph)\{([^}]*)\}/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 400);
+}
+
+// Suggestions of a report: \item entries, "-"/"•"/"1." lines and one-line assessments after a
+// \paragraph heading (the item's group). A report without list items (the detailed paragraph)
+// is split into sentences instead.
+export function parseCoachItems(report: string): Omit<CoachItem, 'status'>[] {
+  const items: Omit<CoachItem, 'status'>[] = [];
+  let listed = 0;
+  let group = '';
+  let current: string[] | null = null;
+  const flush = () => {
+    const text = current ? cleanItem(current.join(' ')) : '';
+    if (text.length > 3) items.push({ id: itemId(text), group, text });
+    current = null;
+  };
+  for (const raw of report.split('\n')) {
+    // "2) \begin{itemize}": a numbered part of the report without its own heading
+    const numbered = raw.trim().match(/^\d+\)\s*(.*)$/);
+    let line = numbered ? numbered[1] : raw.trim();
+    if (numbered) { flush(); group = ''; }
+    const heading = line.match(/^\\paragraph\*?\{([^}]*)\}\s*(.*)$/);
+    if (heading) {
+      flush();
+      group = heading[1].trim();
+      line = heading[2].trim();
+      if (line) current = [line]; // a one-line assessment right after the heading
+      continue;
+    }
+    if (!line || /^\\(begin|end)\{(itemize|enumerate|description)\}$/.test(line)) { flush(); continue; }
+    const start = line.match(/^(?:\\item(?:\[[^\]]*\])?|[-•*]|\d+\.)\s+(.*)$/);
+    if (start) {
+      flush();
+      listed++;
+      current = [start[1]];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  flush();
+  if (listed) return items;
+  const prose = cleanItem(report.replace(/\\paragraph\*?\{[^}]*\}/g, ' '));
+  return (prose.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [])
+    .map(s => s.trim())
+    .filter(s => s.length > 3)
+    .slice(0, 12)
+    .map(text => ({ id: itemId(text), group: '', text }));
+}
+
+export function newRunId(): string {
+  return `c${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// A run for `report`; items dismissed in an earlier run of this document stay dismissed.
+// With structured `findings`, each finding is one item (grouped by category).
+export function createCoachRun(
+  { scope, path, snippet, report, findings, region }: { scope: CoachScope; path: string; snippet: string; report: string; findings?: CoachReport; region?: AnchorRange },
+  history: CoachRun[],
+): CoachRun {
+  const dismissed = new Set(history.flatMap(r => r.items.filter(i => i.status === 'dismissed').map(i => i.id)));
+  const parsed = findings
+    ? findings.findings.map(f => ({ id: itemId(f.message), group: FINDING_CATEGORIES[f.category], text: cleanItem(f.message) }))
+    : parseCoachItems(report);
+  const unique = new Map(parsed.map(i => [i.id, i]));
+  const items = [...unique.values()].map((i): CoachItem => ({ ...i, status: dismissed.has(i.id) ? 'dismissed' : 'open' }));
+  return {
+    id: newRunId(),
+    at: Date.now(),
+    scope,
+    path,
+    snippetHash: simpleHash(snippet),
+    chars: snippet.length,
+    text: report,
+    items,
+    ...(findings ? { report: findings } : {}),
+    ...(region ? { region } : {}),
+  };
+}
+
+// How a run's suggestions compare with the run before it (same document)
+export function compareRuns(run: CoachRun, previous?: CoachRun): CoachRunDiff {
+  if (!previous) return { added: run.items.length, repeated: 0, dropped: 0 };
+  const before = new Set(previous.items.map(i => i.id));
+  const now = new Set(run.items.map(i => i.id));
+  const repeated = run.items.filter(i => before.has(i.id)).length;
+  return { added: run.items.length - repeated, repeated, dropped: previous.items.filter(i => !now.has(i.id)).length };
+}
@@ -2,10 +2,68 @@
 
 // WriteTank — Content Script
 // - Injects combined Q&A and Auto-coach panel
-// - Grabs selection or editor text from Overleaf
+// - Grabs selection or editor text from Overleaf (via the page-world bridge, DOM as fallback)
 // - Sends requests to background and renders answers
+// - Keeps multi-turn Q&A threads per document (browse, rename, delete)
+// - Applies answers into the editor (replace/insert) after a word-level diff preview
+// - Captures .tex/.bib files of the Overleaf project for project-wide context
+// - Stop buttons abort the running model job (partial output stays on screen)
+// - Source/preview toggle renders answers and coach reports (math via bundled KaTeX)
+// - Shows the LaTeX validator's report ("fixed 2 issues / 1 unresolved") under each answer
+// - Lists citation keys from the project's .bib files for \cite{TODO} claims, and flags unknown keys
+// - Checks tab: undefined refs, unused/duplicate labels, unreferenced floats; click jumps to the line
+// - Style checks in the same tab (rule-based, instant): long sentences, passive voice, hedges,
+//   repeated words, undefined acronyms, readability
+// - Terminology in the same tab: variant spellings of one term across the project, with counts and
+//   locations; the form picked per cluster goes into the project's style sheet
+// - Outline tab: sections with word counts, cached summaries (stale when the text changed) and
+//   last-coached times; summarize or coach any one section
+// - Coach history: a timeline of earlier runs for this document; suggestions can be marked
+//   resolved or dismissed, and the latest run is shown again after a reload
+// - Edit-driven Auto-coach: when typing pauses, coaches only the paragraphs changed since the last run
+// - Coach findings (structured JSON) as a list filtered by severity and category; clicking one
+//   selects the quoted text in the editor
+// - Coach findings, style hits and reference problems of the open file also show inside the
+//   editor (via the bridge); Apply fix / Dismiss on their hover cards update the coach history
+// - Prompt action buttons (user templates from the options page) answer into the Q&A output
+// - Runs context-menu entries and keyboard shortcuts the background forwards (ask, coach, apply, …)
+// - Also runs on sites added on the options page (self-hosted Overleaf, other editors); the
+//   site's editor adapter is passed on to the bridge
+
+import type {
+  Annotation, AnnotationGroup, AnnotationSeverity, ApplyEdit, BridgeCall, BridgeEvent, BridgeRequest, BridgeResponse, DocSnapshot, EditorKind,
+} from './bridge-protocol.ts';
+import { isIndexablePath, projectIdFromUrl, simpleHash, type DocRef } from './project.ts';
+import { unzipText } from './zip.ts';
+import type { RetrievedSource } from './retrieval.ts';
+import type { QaThread, QaThreadInfo } from './threads.ts';
+import { changedRegions, diffWords } from './diff.ts';
+import type { JobKind } from './jobs.ts';
+import type { CoachDelta, CoachProgressState, CoachResult, ContentMethods, PanelCommand, PushStreams, RpcWake } from './messages.ts';
+import { connectBackground } from './rpc.ts';
+import { latexToHtml } from './latex-render.ts';
+import { formatLatexReport, type LatexReport } from './latex-check.ts';
+import type { CitationReport } from './bibtex.ts';
+import type { RefCheckResult, RefIssue, RefIssueCode } from './refcheck.ts';
+import { DEFAULT_STYLE_LINT, lintStyle, type StyleReport, type StyleRuleId } from './style-lint.ts';
+import { offCanonicalUses, type TermCluster, type TermKind, type TermLocation, type TermReport } from './terminology.ts';
+import { parseOutline, sectionText, type OutlineEntry } from './outline.ts';
+import { compareRuns, itemId, type CoachItemStatus, type CoachRun, type CoachScope } from './coach-history.ts';
+import { FINDING_CATEGORIES, FINDING_SEVERITIES, locateAnchor, type AnchorRange, type CoachFinding, type CoachReport, type FindingSeverity } from './coach-findings.ts';
+import { templateVariables, type PromptAction } from './prompts.ts';
+import { describeBudget, estimateTokens, type BudgetReport } from './budget.ts';
+import { BUILTIN_SITE, siteFor } from './sites.ts';
+import { lineStart } from './text.ts';
+import katexCss from 'katex/dist/katex.min.css?inline';
+
+type EditorSample = { selection: string; text: string; source: EditorKind | 'dom'; from?: number }; // from: offset of `text` in the file, when known
 
 let writeTankPanel: HTMLElement | null = null;
+// Last complete Q&A answer (what the apply actions insert)
+let qaAnswer = '';
+// Open Q&A thread; null starts a new one on the next question
+let currentThreadId: string | null = null;
+let threadsDocKey = '';
 
 function injectPanels() {
   if (!writeTankPanel) {
@@ -17,47 +75,139 @@ function injectPanels() {
         <div class="wt-tabs">
           <button class="wt-tab active" data-tab="qa">Q&A</button>
           <button class="wt-tab" data-tab="coach">Coach</button>
+          <button class="wt-tab" data-tab="checks">Checks</button>
+          <button class="wt-tab" data-tab="outline">Outline</button>
         </div>
       </div>
       
       <div class="wt-content" id="wt-qa-content">
+        <div class="wt-row wt-thread-bar">
+          <select id="wt-thread" title="Q&A threads for this document"><option value="">New thread</option></select>
+          <button id="wt-thread-rename">Rename</button>
+          <button id="wt-thread-delete">Delete</button>
+        </div>
+        <div id="wt-thread-log" class="wt-thread-log" style="display: none;"></div>
         <textarea id="wt-q" rows="2" placeholder="Ask a question…"></textarea>
         <div class="wt-row">
           <label class="wt-chk"><input type="checkbox" id="wt-useSel" checked> Use selection</label>
           <label class="wt-chk"><input type="checkbox" id="wt-useVisible"> Use visible area</label>
           <span id="wt-sel-status" class="wt-sub" style="font-size: 10px;">✓</span>
           <button id="wt-ask">Ask</button>
+          <button id="wt-qa-stop" style="display: none;">Stop</button>
         </div>
         <div class="wt-preview" id="wt-preview" style="display: block;">
           <div class="wt-preview-header">Content being used:</div>
           <div class="wt-preview-content" id="wt-preview-text"></div>
         </div>
-        <pre id="wt-a" class="wt-out" aria-live="polite">(no answer yet)</pre>
+        <div class="wt-row wt-actions" id="wt-actions" style="display: none;"></div>
         <div class="wt-row">
+          <span id="wt-proj-status" class="wt-sub">Project: no files indexed</span>
+          <button id="wt-index" title="Download the project zip and index every .tex/.bib file">Index project</button>
+        </div>
+        <pre id="wt-a" class="wt-out" aria-live="polite">(no answer yet)</pre>
+        <div id="wt-a-html" class="wt-out wt-rendered" style="display: none;"></div>
+        <div id="wt-a-check" class="wt-check" style="display: none;"></div>
+        <div id="wt-a-cites" class="wt-cites" style="display: none;"></div>
+        <div id="wt-sources" class="wt-sources" style="display: none;"></div>
+        <div class="wt-diff" id="wt-diff" style="display: none;">
+          <div class="wt-preview-header" id="wt-diff-title">Preview</div>
+          <div class="wt-diff-body" id="wt-diff-body"></div>
+          <div class="wt-row">
+            <button id="wt-diff-apply">Apply</button>
+            <button id="wt-diff-cancel">Cancel</button>
+          </div>
+        </div>
+        <div class="wt-row wt-apply-buttons">
+          <button id="wt-a-view" title="Switch between LaTeX source and rendered preview">Preview</button>
           <button id="wt-copy">Copy</button>
+          <button id="wt-replace" title="Replace the selected text with the answer">Replace selection</button>
+          <button id="wt-insert-below" title="Insert the answer on a new line below the selection">Insert below</button>
+          <button id="wt-insert-cursor" title="Insert the answer at the cursor">Insert at cursor</button>
         </div>
       </div>
       
       <div class="wt-content" id="wt-coach-content" style="display: none;">
+        <ol id="wt-coach-progress" class="wt-progress" style="display: none;"></ol>
         <pre id="wt-coach-out" class="wt-out" aria-live="polite">(no suggestions yet)</pre>
+        <div id="wt-coach-html" class="wt-out wt-rendered" style="display: none;"></div>
+        <div id="wt-findings-filters" class="wt-row wt-findings-filters" style="display: none;">
+          <select id="wt-findings-severity" title="Show findings of this severity or higher">
+            <option value="low">All severities</option>
+            <option value="medium">Medium and high</option>
+            <option value="high">High only</option>
+          </select>
+          <select id="wt-findings-category" title="Show findings of one category"><option value="">All categories</option></select>
+          <span id="wt-findings-count" class="wt-sub"></span>
+        </div>
+        <div id="wt-coach-findings" class="wt-findings" style="display: none;"></div>
+        <div id="wt-coach-check" class="wt-check" style="display: none;"></div>
+        <div id="wt-coach-cites" class="wt-cites" style="display: none;"></div>
+        <div id="wt-coach-history" class="wt-history" style="display: none;"></div>
         <div class="wt-row">
           <div class="wt-coach-buttons">
             <button id="wt-run">Run now</button>
             <button id="wt-expand">More detail</button>
             <button id="wt-pause">Pause</button>
+            <button id="wt-coach-stop" title="Stop the running coach pass">Stop</button>
+            <button id="wt-coach-view" title="Switch between LaTeX source and rendered preview">Preview</button>
+            <button id="wt-coach-history-toggle" title="Earlier coach runs for this file; mark suggestions resolved or dismissed">History</button>
           </div>
           <span id="wt-time" class="wt-sub"></span>
         </div>
       </div>
+
+      <div class="wt-content" id="wt-checks-content" style="display: none;">
+        <div class="wt-row">
+          <button id="wt-checks-run" title="Check labels, references and terminology in this file and the project's other captured .tex files, and the style of this file">Run checks</button>
+          <span id="wt-checks-status" class="wt-sub"></span>
+        </div>
+        <div id="wt-checks-list" class="wt-checks"></div>
+        <div class="wt-row">
+          <span class="wt-preview-header">Style</span>
+          <span id="wt-style-status" class="wt-sub"></span>
+        </div>
+        <div id="wt-style-list" class="wt-checks"></div>
+        <div class="wt-row">
+          <span class="wt-preview-header">Terminology</span>
+          <span id="wt-terms-status" class="wt-sub"></span>
+        </div>
+        <div id="wt-terms-list" class="wt-checks"></div>
+      </div>
+
+      <div class="wt-content" id="wt-outline-content" style="display: none;">
+        <div class="wt-row">
+          <button id="wt-outline-refresh" title="Re-read the sections of the open file">Refresh</button>
+          <span id="wt-outline-status" class="wt-sub"></span>
+        </div>
+        <div id="wt-outline-list" class="wt-outline"></div>
+      </div>
     `;
     document.documentElement.appendChild(writeTankPanel);
 
     // Wire up event handlers
     writeTankPanel.querySelector<HTMLButtonElement>('#wt-ask')!.onclick = onAsk;
-    writeTankPanel.querySelector<HTMLButtonElement>('#wt-copy')!.onclick = () => copyText((writeTankPanel!.querySelector('#wt-a') as HTMLElement).textContent || '');
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-copy')!.onclick = () => copyText(qaAnswer || (writeTankPanel!.querySelector('#wt-a') as HTMLElement).textContent || '');
+    writeTankPanel.querySelector<HTMLSelectElement>('#wt-thread')!.onchange = (e) => openThread((e.target as HTMLSelectElement).value || null);
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-thread-rename')!.onclick = renameThread;
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-thread-delete')!.onclick = deleteThread;
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-replace')!.onclick = () => previewApply('replace');
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-insert-below')!.onclick = () => previewApply('below');
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-insert-cursor')!.onclick = () => previewApply('cursor');
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-diff-apply')!.onclick = confirmApply;
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-diff-cancel')!.onclick = closeDiff;
     writeTankPanel.querySelector<HTMLButtonElement>('#wt-run')!.onclick = runCoachNow;
     writeTankPanel.querySelector<HTMLButtonElement>('#wt-expand')!.onclick = expandCoach;
     writeTankPanel.querySelector<HTMLButtonElement>('#wt-pause')!.onclick = togglePause;
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-qa-stop')!.onclick = () => stopJobs(['qa', 'action']);
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-coach-stop')!.onclick = () => stopJobs(['coach', 'expand']);
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-a-view')!.onclick = () => toggleRendered('qa');
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-coach-view')!.onclick = () => toggleRendered('coach');
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-index')!.onclick = indexProjectFromZip;
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-checks-run')!.onclick = runRefChecks;
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-outline-refresh')!.onclick = refreshOutline;
+    writeTankPanel.querySelector<HTMLButtonElement>('#wt-coach-history-toggle')!.onclick = toggleCoachHistory;
+    writeTankPanel.querySelector<HTMLSelectElement>('#wt-findings-severity')!.onchange = renderFindingList;
+    writeTankPanel.querySelector<HTMLSelectElement>('#wt-findings-category')!.onchange = renderFindingList;
     
     // Tab switching
     writeTankPanel.querySelectorAll('.wt-tab').forEach(tab => {
@@ -81,13 +231,37 @@ function injectPanels() {
     
     makeDraggable(writeTankPanel, '.wt-hdr');
     refreshPauseLabel();
+    refreshProjectStatus();
+    refreshThreads();
+    refreshPromptActions();
+    restoreLastCoachRun();
+    configureBridge();
+    window.addEventListener('message', onBridgeEvent);
+    // Actions are edited on the options page; pick up changes when the user comes back
+    window.addEventListener('focus', refreshPromptActions);
+    // Edit-driven Auto-coach: typing in the editor (re)starts the idle timer
+    document.addEventListener('input', (e) => {
+      const target = e.target as Element;
+      if (target?.closest?.(editorSelector) && !target.closest('#wt-panel')) onEditorInput();
+    }, true);
     
     // Initial preview update
     setTimeout(() => updatePreviewOnSelectionChange(), 100);
+    
+    // Capture files as the user opens them in the editor
+    document.addEventListener('click', (e) => {
+      if ((e.target as Element)?.closest?.('li[role="treeitem"]')) {
+        setTimeout(captureCurrentFile, 1500);
+        setTimeout(refreshThreads, 1500);
+        setTimeout(refreshCoachHistory, 1500);
+      }
+    });
+    setInterval(captureCurrentFile, 10000);
+    setTimeout(captureCurrentFile, 1500);
   }
 }
 
-function updatePreviewOnSelectionChange() {
+async function updatePreviewOnSelectionChange() {
   if (!writeTankPanel) return;
   
   const useSel = writeTankPanel.querySelector<HTMLInputElement>('#wt-useSel')!.checked;
@@ -95,7 +269,7 @@ function updatePreviewOnSelectionChange() {
   const statusEl = writeTankPanel.querySelector('#wt-sel-status') as HTMLElement;
   
   if (useSel) {
-    const sample = grabEditorText(true);
+    const sample = await grabEditorText(true);
     showPreview(sample, true);
     
     // Update selection status
@@ -107,7 +281,7 @@ function updatePreviewOnSelectionChange() {
       statusEl.style.color = '#fbbf24';
     }
   } else if (useVisible) {
-    const sample = grabEditorText(false, 'visible');
+    const sample = await grabEditorText(false, 'visible');
     showPreview(sample, false);
     statusEl.textContent = '—';
     statusEl.style.color = '#6b7280';
@@ -137,6 +311,9 @@ function switchTab(tabName: string) {
     (content as HTMLElement).style.display = 'none';
   });
   (writeTankPanel!.querySelector(`#wt-${tabName}-content`) as HTMLElement)!.style.display = 'block';
+  // Checks are cheap (no model), so refresh them whenever the tab opens
+  if (tabName === 'checks') runRefChecks();
+  if (tabName === 'outline') refreshOutline();
 }
 
 function makeDraggable(el: HTMLElement, handleSel: string) {
@@ -163,19 +340,20 @@ async function onAsk() {
   if (!question) {
     renderQA('(enter a question)'); return;
   }
-  let sample = { selection: '', text: '', wasTruncated: false } as { selection: string; text: string; wasTruncated: boolean };
+  let sample: EditorSample = { selection: '', text: '', source: 'dom' };
   if (useSel) {
-    sample = grabEditorText(true);
-    if (!sample.selection) {
+    sample = await grabEditorText(true);
+    // Follow-ups in an open thread may go without a selection
+    if (!sample.selection && !currentThreadId) {
       renderQA('(no selection)');
       showPreview(sample, true);
       return;
     }
   } else if (useVisible) {
-    sample = grabEditorText(false, 'visible');
+    sample = await grabEditorText(false, 'visible');
   } else {
     // No context
-    sample = { selection: '', text: '', wasTruncated: false };
+    sample = { selection: '', text: '', source: 'dom' };
   }
   
   // Show preview of what text is being used
@@ -184,29 +362,175 @@ async function onAsk() {
   // Debug info - show what text is being used
   const debugInfo = `=== WRITETANK DEBUG ===
 Using: ${useSel ? 'SELECTION' : 'FULL DOCUMENT'}
+Source: ${sample.source}
 Selection available: ${sample.selection.length > 0 ? 'YES' : 'NO'}
 Text length: ${sample.text.length} chars
-Text truncated: ${sample.wasTruncated ? 'YES' : 'NO'}
 Selected text: "${sample.selection}"
 Text preview: "${sample.text.substring(0, 100)}${sample.text.length > 100 ? '...' : ''}"
 =====================`;
   console.log(debugInfo);
   
   renderQA('Thinking…');
+  renderSources([]);
+  renderCheck('qa');
+  renderCitations('qa');
+  qaAnswer = '';
+  closeDiff();
+  const stopBtn = writeTankPanel!.querySelector<HTMLButtonElement>('#wt-qa-stop')!;
+  stopBtn.style.display = '';
   try {
-    const res = await chrome.runtime.sendMessage({ cmd: 'qa', question, text: sample.text });
+    // Deltas arrive on this request only, so another tab's answer never lands here
+    const res = await bg.call('qa', { question, text: sample.text, doc: currentDocRef(), threadId: currentThreadId }, renderQADelta);
     console.log('QA Response:', res);
-    if (res?.ok) {
-      renderQA(res.text || '(no answer)');
+    if (res.stopped && !res.text) {
+      renderQA('(stopped)');
     } else {
-      renderQA(`(error) ${res?.error || 'Model unavailable'}`);
+      qaAnswer = res.text || '';
+      renderQA(res.text || '(no answer)');
+      renderSources(res.sources || []);
+      renderBudget(res.budget);
+      qEl.value = '';
+      currentThreadId = res.threadId || null;
+      await refreshThreads();
+      await openThread(currentThreadId);
+      // Keep the partial answer as the copy/apply target, but mark it
+      if (res.stopped) renderQA(`${qaAnswer}\n\n(stopped)`);
     }
-  } catch (error) {
+  } catch (error: any) {
     console.error('QA Error:', error);
-    renderQA(`(error) ${error}`);
+    renderQA(`(error) ${error?.message || error || 'Model unavailable'}`);
+  } finally {
+    stopBtn.style.display = 'none';
+  }
+}
+
+// --- Prompt actions (templates edited on the options page)
+async function refreshPromptActions() {
+  const row = writeTankPanel?.querySelector('#wt-actions') as HTMLElement | null;
+  if (!row) return;
+  const settings = await bg.call('settings:get', undefined).catch(() => null);
+  const actions = settings?.promptActions ?? [];
+  row.innerHTML = '';
+  row.style.display = actions.length ? '' : 'none';
+  for (const action of actions) {
+    const btn = document.createElement('button');
+    btn.textContent = action.label;
+    btn.title = action.template.length > 300 ? action.template.slice(0, 300) + '…' : action.template;
+    btn.addEventListener('click', () => runPromptAction(action, btn));
+    row.appendChild(btn);
   }
 }
 
+async function runPromptAction(action: PromptAction, btn?: HTMLButtonElement) {
+  // The whole file feeds {{document}}/{{section_title}}; the selection feeds {{selection}}
+  const snap = await requestDocSnapshot();
+  const selection = snap ? (snap.selections[0]?.text ?? '') : (await grabEditorText(true)).selection;
+  const text = snap ? snap.text : (await grabEditorText(false)).text;
+  if (templateVariables(action.template).includes('selection') && !selection.trim()) {
+    toast('Select some text first');
+    return;
+  }
+  renderQA('');
+  renderSources([]);
+  renderCheck('qa');
+  renderCitations('qa');
+  qaAnswer = '';
+  closeDiff();
+  const stopBtn = writeTankPanel!.querySelector<HTMLButtonElement>('#wt-qa-stop')!;
+  stopBtn.style.display = '';
+  if (btn) btn.disabled = true;
+  try {
+    const res = await bg.call('action:run', {
+      actionId: action.id,
+      selection,
+      text,
+      line: snap?.selections[0]?.fromLine ?? 1,
+      doc: currentDocRef(),
+    }, renderQADelta);
+    qaAnswer = res.text || '';
+    renderQA(res.stopped ? `${qaAnswer}\n\n(stopped)`.trimStart() : (qaAnswer || '(no answer)'));
+    renderCheck('qa', res.check);
+  } catch (error: any) {
+    renderQA(`(error) ${error?.message || error || 'Model unavailable'}`);
+  } finally {
+    stopBtn.style.display = 'none';
+    if (btn) btn.disabled = false;
+  }
+}
+
+// --- Context menu and keyboard shortcuts (forwarded by the background)
+function showPanel(tab?: 'qa' | 'coach' | 'checks' | 'outline') {
+  writeTankPanel!.style.display = '';
+  if (tab) switchTab(tab);
+}
+
+// Long runs are not awaited: the background only needs to know the command arrived
+async function runPanelCommand(cmd: PanelCommand) {
+  switch (cmd.kind) {
+    case 'toggle-panel':
+      writeTankPanel!.style.display = writeTankPanel!.style.display === 'none' ? '' : 'none';
+      return;
+    case 'ask': {
+      showPanel('qa');
+      writeTankPanel!.querySelector<HTMLInputElement>('#wt-useSel')!.checked = true;
+      writeTankPanel!.querySelector<HTMLInputElement>('#wt-useVisible')!.checked = false;
+      updatePreviewOnSelectionChange();
+      writeTankPanel!.querySelector<HTMLTextAreaElement>('#wt-q')!.focus();
+      return;
+    }
+    case 'coach-selection':
+      showPanel('coach');
+      coachSelection(cmd.selection);
+      return;
+    case 'run-coach':
+      showPanel('coach');
+      runCoachNow();
+      return;
+    case 'apply': {
+      showPanel('qa');
+      // First press previews, second press applies
+      if (pendingEdit) { confirmApply(); return; }
+      const sel = (await requestDocSnapshot())?.selections[0];
+      previewApply(sel && sel.from !== sel.to ? 'replace' : 'cursor');
+      return;
+    }
+    case 'action': {
+      const action = (await bg.call('settings:get', undefined)).promptActions.find(a => a.id === cmd.actionId);
+      if (!action) { toast('Action not found'); return; }
+      showPanel('qa');
+      runPromptAction(action);
+      return;
+    }
+  }
+}
+
+// "Coach this": the coach pass over just the selection (the menu's copy if the editor is not reachable)
+async function coachSelection(fallback: string) {
+  const sample = await grabEditorText(true);
+  // The trimmed selection: `from` has moved past its leading whitespace too
+  const text = sample.text || fallback;
+  if (!text.trim()) { toast('Select some text first'); return; }
+  await coachSnippet(text, 'Coaching selection…', sample.text ? sample.from : undefined);
+}
+
+// A coach pass over part of the document (selection or one outline section); `from`: its offset
+async function coachSnippet(text: string, label: string, from?: number) {
+  const timeEl = writeTankPanel!.querySelector('#wt-time') as HTMLElement;
+  timeEl.textContent = label;
+  try {
+    const res = await bg.call('coach', { text, doc: currentDocRef(), from }, renderCoachEvent);
+    renderCoachResult(res);
+    timeEl.textContent = res.stopped ? 'Stopped' : 'Analysis complete';
+  } catch (e: any) {
+    timeEl.textContent = `Error: ${e?.message || e}`;
+  }
+}
+
+// Abort this tab's running/queued model jobs of the given kinds
+function stopJobs(kinds: JobKind[]) {
+  bg.call('jobs:cancel', { kinds }).catch(() => {});
+}
+
 async function runCoachNow() {
   const runBtn = writeTankPanel!.querySelector<HTMLButtonElement>('#wt-run')!;
   const expandBtn = writeTankPanel!.querySelector<HTMLButtonElement>('#wt-expand')!;
@@ -221,14 +545,9 @@ async function runCoachNow() {
     runBtn.textContent = 'Running...';
     timeEl.textContent = 'Scanning...';
     
-    const res = await chrome.runtime.sendMessage({ cmd: 'run-now' });
-    if (res?.ok) {
-      // renderCoach will update time on message receipt
-      timeEl.textContent = 'Analysis complete';
-    } else {
-      timeEl.textContent = `Error: ${res?.error || 'Run failed'}`;
-      coachOut.textContent = '(analysis failed)';
-    }
+    const res = await bg.call('coach:run', undefined, renderCoachEvent);
+    renderCoachResult(res);
+    timeEl.textContent = res.stopped ? 'Stopped' : 'Analysis complete';
   } catch (e: any) {
     timeEl.textContent = `Error: ${e?.message || e}`;
     coachOut.textContent = '(analysis failed)';
@@ -249,15 +568,11 @@ async function expandCoach() {
   timeEl.textContent = 'Generating detailed analysis...';
   
   try {
-    const sample = grabEditorText(false, 'visible');
-    const res = await chrome.runtime.sendMessage({ cmd: 'coach:expand', text: sample.text });
-    if (res?.ok) {
-      renderCoach(res.text, Date.now());
-      timeEl.textContent = 'Detailed analysis complete';
-    } else {
-      timeEl.textContent = `Error: ${res?.error || 'Expand failed'}`;
-      coachOut.textContent = '(detailed analysis failed)';
-    }
+    // Whole document: the background chunks it and merges per-section findings
+    const sample = await grabEditorText(false);
+    const res = await bg.call('coach:expand', { text: sample.text, doc: currentDocRef(), from: sample.from }, renderCoachEvent);
+    renderCoachResult(res);
+    timeEl.textContent = res.stopped ? 'Stopped' : 'Detailed analysis complete';
   } catch (e: any) {
     timeEl.textContent = `Error: ${e?.message || e}`;
     coachOut.textContent = '(detailed analysis failed)';
@@ -267,7 +582,7 @@ async function expandCoach() {
   }
 }
 
-function showPreview(sample: { selection: string; text: string; wasTruncated: boolean }, useSel: boolean) {
+function showPreview(sample: EditorSample, useSel: boolean) {
   const previewEl = writeTankPanel!.querySelector('#wt-preview') as HTMLElement;
   const previewTextEl = writeTankPanel!.querySelector('#wt-preview-text') as HTMLElement;
   const previewHeaderEl = writeTankPanel!.querySelector('.wt-preview-header') as HTMLElement;
@@ -283,17 +598,19 @@ function showPreview(sample: { selection: string; text: string; wasTruncated: bo
   if (useSel && sample.selection.length > 0) {
     console.log('Showing selection preview:', sample.selection);
     previewEl.style.display = 'block';
-    previewHeaderEl.textContent = sample.wasTruncated ? 'Selected text (trimmed to 1500 chars):' : 'Selected text:';
+    previewHeaderEl.textContent = `Selected text (~${estimateTokens(sample.selection)} tokens):`;
+    previewHeaderEl.title = '';
     previewTextEl.textContent = sample.selection;
-    // Truncation already reflected in header when applicable
+    // What actually fits is reported after the answer (renderBudget)
   } else if (!useSel) {
     console.log('Showing full document preview');
     previewEl.style.display = 'block';
-    previewHeaderEl.textContent = sample.wasTruncated ? 'Full document (trimmed to 1500 chars):' : 'Full document:';
+    previewHeaderEl.textContent = `Full document (~${estimateTokens(sample.text)} tokens):`;
+    previewHeaderEl.title = '';
     previewTextEl.textContent = sample.text.length > 200 ? 
       sample.text.substring(0, 200) + '...' : 
       sample.text;
-    // Truncation already reflected in header when applicable
+    // What actually fits is reported after the answer (renderBudget)
   } else {
     // Selection mode with no selection
     previewEl.style.display = 'block';
@@ -304,16 +621,238 @@ function showPreview(sample: { selection: string; text: string; wasTruncated: bo
 
 function renderQA(text: string) {
   (writeTankPanel!.querySelector('#wt-a') as HTMLElement).textContent = text;
+  refreshRendered('qa');
+}
+
+// The preview header after an answer: what the background's budgeter sent, trimmed or dropped
+function renderBudget(budget?: BudgetReport) {
+  if (!budget) return;
+  const header = writeTankPanel!.querySelector('#wt-preview .wt-preview-header') as HTMLElement;
+  header.textContent = describeBudget(budget);
+  header.title = budget.lines
+    .filter(l => l.of > 0)
+    .map(l => `${l.label}: ${l.status === 'full' ? `${l.tokens} tokens` : l.status === 'trimmed' ? `${l.tokens} of ${l.of} tokens (trimmed)` : `dropped (${l.of} tokens)`}`)
+    .join('\n') + `\n\nReserved for the prompt wording and the answer: ${budget.reserved}`;
 }
 
-function renderCoach(text: string, ts?: number) {
-  (writeTankPanel!.querySelector('#wt-coach-out') as HTMLElement).textContent = text || '(no suggestions)';
+// Which summaries/paragraphs retrieval pulled into the Q&A context
+function renderSources(sources: RetrievedSource[]) {
+  const el = writeTankPanel!.querySelector('#wt-sources') as HTMLElement;
+  el.innerHTML = '';
+  el.style.display = sources.length ? 'block' : 'none';
+  if (!sources.length) return;
+  const hdr = document.createElement('div');
+  hdr.className = 'wt-preview-header';
+  hdr.textContent = 'Context pulled in:';
+  el.appendChild(hdr);
+  for (const src of sources) {
+    const row = document.createElement('div');
+    const where = src.kind === 'summary' ? `${src.path} (summary)` : `${src.path}:${src.line}`;
+    row.textContent = `${where}${src.title && src.kind !== 'summary' ? ` — ${src.title}` : ''}`;
+    if (src.score) row.title = `similarity ${src.score.toFixed(2)}`;
+    el.appendChild(row);
+  }
+}
+
+function renderCoach(text: string, ts?: number, stopped = false) {
+  const out = writeTankPanel!.querySelector('#wt-coach-out') as HTMLElement;
+  if (!stopped) out.textContent = text || '(no suggestions)';
+  else out.textContent = `${text || out.textContent || ''}\n\n(stopped)`.trimStart();
   if (ts) (writeTankPanel!.querySelector('#wt-time') as HTMLElement).textContent = `Updated ${new Date(ts).toLocaleTimeString()}`;
+  refreshRendered('coach');
 }
 
-function renderCoachDelta(delta: string) {
-  const coachOut = writeTankPanel!.querySelector('#wt-coach-out') as HTMLElement;
-  coachOut.textContent = (coachOut.textContent || '') + delta;
+// Per-chunk progress when a long text is coached in chunks
+function renderCoachPlan(chunks: { title: string; startLine: number }[], skipped: number) {
+  const list = writeTankPanel!.querySelector('#wt-coach-progress') as HTMLElement;
+  (writeTankPanel!.querySelector('#wt-coach-out') as HTMLElement).textContent = '';
+  refreshRendered('coach');
+  renderCheck('coach');
+  renderCitations('coach');
+  renderFindings();
+  annotateCoach();
+  list.innerHTML = '';
+  // A single chunk needs no progress list
+  list.style.display = chunks.length > 1 ? 'block' : 'none';
+  const rows = chunks.length > 1 ? chunks.map(c => `${c.title} (line ${c.startLine})`) : [];
+  for (const label of rows) {
+    const li = document.createElement('li');
+    li.dataset.state = 'pending';
+    li.textContent = label;
+    list.appendChild(li);
+  }
+  if (skipped > 0) {
+    const li = document.createElement('li');
+    li.className = 'wt-progress-note';
+    li.textContent = `${skipped} more chunk${skipped === 1 ? '' : 's'} not coached (document too long)`;
+    list.appendChild(li);
+  }
+}
+
+function renderCoachProgress(index: number, state: CoachProgressState) {
+  const list = writeTankPanel!.querySelector('#wt-coach-progress') as HTMLElement;
+  const rows = list.querySelectorAll<HTMLElement>('li:not(.wt-progress-note)');
+  const row = rows[index];
+  if (row) row.dataset.state = state;
+  const timeEl = writeTankPanel!.querySelector('#wt-time') as HTMLElement;
+  if (rows.length > 1 && state === 'running') timeEl.textContent = `Coaching chunk ${index + 1}/${rows.length}…`;
+}
+
+// One streamed coach event, whether from our own request or a run the background started
+function renderCoachEvent(d: CoachDelta) {
+  if (d.kind === 'status') (writeTankPanel!.querySelector('#wt-time') as HTMLElement).textContent = d.text;
+  else if (d.kind === 'plan') renderCoachPlan(d.chunks, d.skipped);
+  else renderCoachProgress(d.index, d.state);
+}
+
+function renderCoachResult(res: CoachResult) {
+  renderCoach(res.report ? reportSummary(res.report) : res.text, res.updatedAt, res.stopped);
+  renderCheck('coach', res.check);
+  renderCitations('coach', res.citations);
+  renderFindings(res.report, res.region);
+  annotateCoach(res.report, res.region);
+  if (!res.stopped) refreshCoachHistory();
+}
+
+// --- Coach findings
+// The findings list replaces the report text; the output keeps only the summary
+let coachReport: CoachReport | undefined;
+let coachRegion: AnchorRange | undefined; // where the coached text was in the file
+
+// Where a finding's quote is in the editor: the list, the jump and the inline marks all agree.
+// Within the coached text when its place is known (a quote can occur elsewhere too).
+function findingRange(text: string, f: CoachFinding, region?: AnchorRange): AnchorRange | null {
+  return f.anchor ? locateAnchor(text, f.anchor, region) : null;
+}
+const SEVERITY_ORDER: FindingSeverity[] = ['high', 'medium', 'low'];
+
+function reportSummary(report: CoachReport) {
+  const n = report.findings.length;
+  const count = n ? `${n} finding${n === 1 ? '' : 's'} below.` : 'No issues found.';
+  return report.summary ? `${report.summary}\n\n${count}` : count;
+}
+
+function renderFindings(report?: CoachReport, region?: AnchorRange) {
+  coachReport = report;
+  coachRegion = region;
+  const filters = writeTankPanel!.querySelector('#wt-findings-filters') as HTMLElement;
+  const list = writeTankPanel!.querySelector('#wt-coach-findings') as HTMLElement;
+  const show = !!report?.findings.length;
+  filters.style.display = show ? '' : 'none';
+  list.style.display = show ? 'block' : 'none';
+  list.innerHTML = '';
+  if (!report || !show) return;
+  // Categories on offer are the ones this report uses; keep the choice when it still applies
+  const category = writeTankPanel!.querySelector('#wt-findings-category') as HTMLSelectElement;
+  const chosen = category.value;
+  const used = (Object.keys(FINDING_CATEGORIES) as (keyof typeof FINDING_CATEGORIES)[])
+    .filter(c => report.findings.some(f => f.category === c));
+  category.innerHTML = '<option value="">All categories</option>';
+  for (const c of used) category.add(new Option(FINDING_CATEGORIES[c], c));
+  category.value = used.some(c => c === chosen) ? chosen : '';
+  renderFindingList();
+}
+
+async function renderFindingList() {
+  const list = writeTankPanel!.querySelector('#wt-coach-findings') as HTMLElement;
+  const report = coachReport;
+  if (!report) return;
+  const minSeverity = (writeTankPanel!.querySelector('#wt-findings-severity') as HTMLSelectElement).value as FindingSeverity;
+  const category = (writeTankPanel!.querySelector('#wt-findings-category') as HTMLSelectElement).value;
+  const shown = report.findings.filter(f =>
+    SEVERITY_ORDER.indexOf(f.severity) <= SEVERITY_ORDER.indexOf(minSeverity) && (!category || f.category === category));
+  (writeTankPanel!.querySelector('#wt-findings-count') as HTMLElement).textContent =
+    shown.length === report.findings.length ? `${shown.length}` : `${shown.length} of ${report.findings.length}`;
+  // Line numbers from one snapshot; anchors the editor no longer contains show without one
+  const snap = await requestDocSnapshot();
+  if (report !== coachReport) return;
+  list.innerHTML = '';
+  for (const f of shown) {
+    const row = document.createElement('div');
+    row.className = 'wt-finding';
+    row.dataset.severity = f.severity;
+    const head = document.createElement('div');
+    head.className = 'wt-finding-head';
+    const sev = document.createElement('span');
+    sev.className = 'wt-finding-severity';
+    sev.textContent = FINDING_SEVERITIES[f.severity];
+    const cat = document.createElement('span');
+    cat.className = 'wt-finding-category';
+    cat.textContent = FINDING_CATEGORIES[f.category];
+    const msg = document.createElement('span');
+    msg.textContent = f.message;
+    head.append(sev, cat, msg);
+    row.appendChild(head);
+    if (f.fix) {
+      const fix = document.createElement('div');
+      fix.className = 'wt-finding-fix';
+      fix.textContent = `Suggested: ${f.fix}`;
+      row.appendChild(fix);
+    }
+    if (f.anchor) {
+      const at = snap ? findingRange(snap.text, f, coachRegion) : null;
+      const quote = document.createElement('div');
+      quote.className = 'wt-finding-anchor';
+      quote.textContent = `${at ? `line ${snap!.text.slice(0, at.from).split('\n').length}: ` : ''}“${f.anchor}”`;
+      row.appendChild(quote);
+      row.title = 'Select the quoted text in the editor';
+      row.addEventListener('click', () => jumpToFinding(f));
+    }
+    list.appendChild(row);
+  }
+}
+
+async function jumpToFinding(finding: CoachFinding) {
+  const snap = await requestDocSnapshot();
+  if (!snap) { toast('Editor not reachable'); return; }
+  const at = findingRange(snap.text, finding, coachRegion);
+  if (!at) { toast('Quoted text not found (edited since?)'); return; }
+  const res = await callBridge({ type: 'select', from: at.from, to: at.to });
+  if (!res?.ok) toast(res?.error || 'Editor not reachable');
+}
+
+// Validator report under an answer; hover lists each diagnostic
+function renderCheck(view: OutputView, check?: LatexReport) {
+  const el = writeTankPanel?.querySelector(view === 'qa' ? '#wt-a-check' : '#wt-coach-check') as HTMLElement | null;
+  if (!el) return;
+  el.style.display = check ? '' : 'none';
+  if (!check) return;
+  el.textContent = formatLatexReport(check);
+  el.dataset.state = check.unresolved ? 'unresolved' : check.fixed ? 'fixed' : 'ok';
+  el.title = check.diagnostics
+    .map(d => `Line ${d.line}: ${d.message}${d.fixed ? '' : ' (not fixed)'}`)
+    .join('\n');
+}
+
+// Ranked .bib keys for each \cite{TODO} claim (click copies \cite{key}) and keys no .bib defines
+function renderCitations(view: OutputView, report?: CitationReport) {
+  const el = writeTankPanel?.querySelector(view === 'qa' ? '#wt-a-cites' : '#wt-coach-cites') as HTMLElement | null;
+  if (!el) return;
+  el.innerHTML = '';
+  const show = !!report && (report.suggestions.length > 0 || report.unknownKeys.length > 0);
+  el.style.display = show ? 'block' : 'none';
+  if (!report || !show) return;
+  for (const s of report.suggestions) {
+    const claim = document.createElement('div');
+    claim.className = 'wt-cite-claim';
+    claim.textContent = `Cite (${s.source} line ${s.line}): ${s.claim}`;
+    const keys = document.createElement('div');
+    keys.className = 'wt-cite-keys';
+    for (const c of s.candidates) {
+      const btn = document.createElement('button');
+      btn.textContent = c.key;
+      btn.title = `${c.title}${c.year ? ` (${c.year})` : ''}\nmatch ${Math.round(c.score * 100)}% — click to copy \\cite{${c.key}}`;
+      btn.addEventListener('click', () => copyText(`\\cite{${c.key}}`));
+      keys.appendChild(btn);
+    }
+    el.append(claim, keys);
+  }
+  for (const u of report.unknownKeys) {
+    const row = document.createElement('div');
+    row.className = 'wt-cite-unknown';
+    row.textContent = `Unknown key \\cite{${u.key}} (${u.source} line ${u.line}): not in any .bib`;
+    el.appendChild(row);
+  }
 }
 
 function renderQADelta(delta: string) {
@@ -321,6 +860,746 @@ function renderQADelta(delta: string) {
   if (qaOut) {
     qaOut.textContent = (qaOut.textContent || '') + delta;
   }
+  refreshRendered('qa');
+}
+
+// --- Rendered preview (LaTeX source ⇄ HTML, per tab)
+type OutputView = 'qa' | 'coach';
+const VIEW_ELEMENTS: Record<OutputView, { source: string; rendered: string; toggle: string }> = {
+  qa: { source: '#wt-a', rendered: '#wt-a-html', toggle: '#wt-a-view' },
+  coach: { source: '#wt-coach-out', rendered: '#wt-coach-html', toggle: '#wt-coach-view' },
+};
+const renderedOn: Record<OutputView, boolean> = { qa: false, coach: false };
+const renderPending: Record<OutputView, boolean> = { qa: false, coach: false };
+
+// KaTeX's stylesheet, with its font URLs pointed at the copies bundled in the extension
+function ensureKatexStyles() {
+  if (document.getElementById('wt-katex-css')) return;
+  const style = document.createElement('style');
+  style.id = 'wt-katex-css';
+  style.textContent = katexCss.replace(/url\((\/assets\/[^)]+)\)/g, (_m, path: string) => `url(${chrome.runtime.getURL(path)})`);
+  document.head.appendChild(style);
+}
+
+function toggleRendered(view: OutputView) {
+  const ids = VIEW_ELEMENTS[view];
+  renderedOn[view] = !renderedOn[view];
+  if (renderedOn[view]) ensureKatexStyles();
+  (writeTankPanel!.querySelector(ids.source) as HTMLElement).style.display = renderedOn[view] ? 'none' : '';
+  (writeTankPanel!.querySelector(ids.rendered) as HTMLElement).style.display = renderedOn[view] ? '' : 'none';
+  writeTankPanel!.querySelector<HTMLButtonElement>(ids.toggle)!.textContent = renderedOn[view] ? 'Source' : 'Preview';
+  refreshRendered(view);
+}
+
+// Re-render from the source <pre> at most once per frame (deltas arrive token by token)
+function refreshRendered(view: OutputView) {
+  if (!renderedOn[view] || renderPending[view]) return;
+  renderPending[view] = true;
+  requestAnimationFrame(() => {
+    renderPending[view] = false;
+    const ids = VIEW_ELEMENTS[view];
+    const source = writeTankPanel?.querySelector(ids.source) as HTMLElement | null;
+    const rendered = writeTankPanel?.querySelector(ids.rendered) as HTMLElement | null;
+    if (source && rendered) rendered.innerHTML = latexToHtml(source.textContent || '');
+  });
+}
+
+// --- Q&A threads
+async function refreshThreads() {
+  const select = writeTankPanel?.querySelector<HTMLSelectElement>('#wt-thread');
+  if (!select) return;
+  const doc = currentDocRef();
+  // Switching files switches thread lists; start fresh in the new document
+  const key = `${doc.projectId}:${doc.path}`;
+  if (key !== threadsDocKey) {
+    threadsDocKey = key;
+    if (currentThreadId) openThread(null);
+  }
+  const threads: QaThreadInfo[] = await bg.call('threads:list', { doc }).catch(() => []);
+  select.innerHTML = '';
+  select.appendChild(new Option('New thread', ''));
+  for (const t of threads) select.appendChild(new Option(`${t.title} (${t.turns})`, t.id));
+  select.value = currentThreadId ?? '';
+}
+
+// Show a thread: earlier turns in the log, the latest answer in #wt-a
+async function openThread(threadId: string | null) {
+  const log = writeTankPanel!.querySelector('#wt-thread-log') as HTMLElement;
+  currentThreadId = threadId;
+  closeDiff();
+  log.innerHTML = '';
+  log.style.display = 'none';
+  if (!threadId) {
+    qaAnswer = '';
+    renderQA('(no answer yet)');
+    renderSources([]);
+    renderCheck('qa');
+    renderCitations('qa');
+    (writeTankPanel!.querySelector('#wt-q') as HTMLTextAreaElement).placeholder = 'Ask a question…';
+    return;
+  }
+  const thread: QaThread | null = await bg.call('threads:get', { doc: currentDocRef(), threadId }).catch(() => null);
+  if (!thread) { openThread(null); return; }
+  for (const turn of thread.turns) {
+    const q = document.createElement('div');
+    q.className = 'wt-turn-q';
+    q.textContent = turn.question;
+    const a = document.createElement('div');
+    a.className = 'wt-turn-a';
+    a.textContent = turn.answer;
+    log.append(q, a);
+  }
+  // The latest answer lives in #wt-a (copy/apply target), so drop its duplicate from the log
+  log.lastElementChild?.remove();
+  log.style.display = thread.turns.length ? 'block' : 'none';
+  log.scrollTop = log.scrollHeight;
+  const last = thread.turns[thread.turns.length - 1];
+  qaAnswer = last?.answer || '';
+  renderQA(qaAnswer || '(no answer yet)');
+  renderSources(last?.sources || []);
+  renderCheck('qa', last?.check);
+  renderCitations('qa', last?.citations);
+  (writeTankPanel!.querySelector('#wt-q') as HTMLTextAreaElement).placeholder = 'Follow up (e.g. "shorter", "now as a table")…';
+}
+
+async function renameThread() {
+  if (!currentThreadId) { toast('Open a thread first'); return; }
+  const select = writeTankPanel!.querySelector<HTMLSelectElement>('#wt-thread')!;
+  const currentTitle = select.selectedOptions[0]?.text.replace(/ \(\d+\)$/, '') || '';
+  const title = window.prompt('Rename thread', currentTitle);
+  if (!title || !title.trim()) return;
+  await bg.call('threads:rename', { doc: currentDocRef(), threadId: currentThreadId, title }).catch((e) => toast(e.message));
+  refreshThreads();
+}
+
+async function deleteThread() {
+  if (!currentThreadId) { toast('Open a thread first'); return; }
+  if (!window.confirm('Delete this thread?')) return;
+  await bg.call('threads:delete', { doc: currentDocRef(), threadId: currentThreadId }).catch(() => {});
+  await openThread(null);
+  refreshThreads();
+}
+
+// --- Reference checks (no model)
+const REF_ISSUE_LABELS: Record<RefIssueCode, string> = {
+  'undefined-ref': 'Undefined ref',
+  'duplicate-label': 'Duplicate label',
+  'unused-label': 'Unused label',
+  'unreferenced-float': 'Unreferenced float',
+};
+
+// The file exactly as the editor holds it (not trimmed), so the checks' offsets and lines are
+// the document's own and their underlines land where they belong
+async function checkedText(): Promise<string> {
+  const snap = await requestDocSnapshot();
+  return snap ? snap.text : (await grabEditorText(false)).text;
+}
+
+async function runRefChecks() {
+  const btn = writeTankPanel!.querySelector<HTMLButtonElement>('#wt-checks-run')!;
+  const status = writeTankPanel!.querySelector('#wt-checks-status') as HTMLElement;
+  btn.disabled = true;
+  status.textContent = 'Checking…';
+  try {
+    const text = await checkedText();
+    runStyleLint(text);
+    runTermChecks(text);
+    const refs = await bg.call('checks:refs', { text, doc: currentDocRef() });
+    renderRefChecks(refs);
+    annotateRefs(refs, text);
+  } catch (e: any) {
+    status.textContent = `(error) ${e?.message || e}`;
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+function renderRefChecks(res: RefCheckResult & { path: string }) {
+  const status = writeTankPanel!.querySelector('#wt-checks-status') as HTMLElement;
+  const list = writeTankPanel!.querySelector('#wt-checks-list') as HTMLElement;
+  const n = res.issues.length;
+  status.textContent = `${n ? `${n} issue${n === 1 ? '' : 's'}` : 'No issues'} · ${res.labels} labels, ${res.refs} refs in ${res.files} file${res.files === 1 ? '' : 's'}`;
+  list.innerHTML = '';
+  for (const issue of res.issues) {
+    const row = document.createElement('div');
+    row.className = 'wt-check-row';
+    row.dataset.code = issue.code;
+    const badge = document.createElement('span');
+    badge.className = 'wt-check-code';
+    badge.textContent = REF_ISSUE_LABELS[issue.code];
+    const msg = document.createElement('span');
+    msg.textContent = issue.message;
+    const where = document.createElement('span');
+    where.className = 'wt-sub';
+    where.textContent = `${issue.path}:${issue.line}`;
+    row.append(badge, msg, where);
+    row.title = issue.path === res.path ? 'Jump to this line' : `In ${issue.path}; open that file to jump`;
+    row.addEventListener('click', () => jumpToIssue(issue, res.path));
+    list.appendChild(row);
+  }
+}
+
+const STYLE_ISSUE_LABELS: Record<StyleRuleId, string> = {
+  'long-sentence': 'Long sentence',
+  'passive': 'Passive',
+  'hedge': 'Hedge',
+  'repeated-word': 'Repeated word',
+  'undefined-acronym': 'Acronym',
+  'hard-paragraph': 'Readability',
+};
+
+// Style lint runs here in the page: no model and no round trip, only the rule settings
+async function runStyleLint(text: string) {
+  const s = await bg.call('settings:get', undefined).catch(() => null);
+  const report = lintStyle(text, s?.styleLint ?? DEFAULT_STYLE_LINT);
+  renderStyleLint(report);
+  annotateStyle(report, text);
+}
+
+function renderStyleLint(report: StyleReport) {
+  const status = writeTankPanel!.querySelector('#wt-style-status') as HTMLElement;
+  const list = writeTankPanel!.querySelector('#wt-style-list') as HTMLElement;
+  const { readability: r, issues } = report;
+  const n = issues.length;
+  status.textContent = `${n ? `${n} finding${n === 1 ? '' : 's'}` : 'No findings'}`
+    + (r.words ? ` · Flesch ${r.readingEase}, grade ${r.grade}, ${r.wordsPerSentence} words/sentence` : '');
+  status.title = 'Flesch reading ease: higher is easier (academic prose is often 10–40). Grade: Flesch–Kincaid school grade.';
+  list.innerHTML = '';
+  for (const issue of issues) {
+    const row = document.createElement('div');
+    row.className = 'wt-check-row';
+    row.dataset.code = issue.rule;
+    const badge = document.createElement('span');
+    badge.className = 'wt-check-code';
+    badge.textContent = STYLE_ISSUE_LABELS[issue.rule];
+    const msg = document.createElement('span');
+    msg.textContent = issue.message;
+    const where = document.createElement('span');
+    where.className = 'wt-sub';
+    where.textContent = `line ${issue.line}`;
+    row.append(badge, msg, where);
+    row.title = `${issue.excerpt}\n\nJump to this line`;
+    row.addEventListener('click', async () => {
+      const res = await callBridge({ type: 'reveal', line: issue.line });
+      if (!res?.ok) toast(res?.error || 'Editor not reachable');
+    });
+    list.appendChild(row);
+  }
+}
+
+const TERM_KIND_LABELS: Record<TermKind, string> = {
+  compound: 'Compound',
+  spelling: 'Spelling',
+  capitalization: 'Capitals',
+  punctuation: 'Punctuation',
+};
+
+async function runTermChecks(text: string) {
+  const status = writeTankPanel!.querySelector('#wt-terms-status') as HTMLElement;
+  try {
+    renderTermChecks(await bg.call('checks:terms', { text, doc: currentDocRef() }));
+  } catch (e: any) {
+    status.textContent = `(error) ${e?.message || e}`;
+  }
+}
+
+function renderTermChecks(report: TermReport & { path: string }) {
+  const status = writeTankPanel!.querySelector('#wt-terms-status') as HTMLElement;
+  const list = writeTankPanel!.querySelector('#wt-terms-list') as HTMLElement;
+  const n = report.clusters.length;
+  const off = report.clusters.reduce((k, c) => k + offCanonicalUses(c), 0);
+  status.textContent = `${n ? `${n} term${n === 1 ? '' : 's'} with variants` : 'Consistent'}`
+    + (off ? ` · ${off} use${off === 1 ? '' : 's'} off the style sheet` : '')
+    + ` · ${report.words} words in ${report.files} file${report.files === 1 ? '' : 's'}`;
+  list.innerHTML = '';
+  for (const cluster of report.clusters) list.appendChild(termClusterRow(cluster, report.path));
+}
+
+function termClusterRow(cluster: TermCluster, openPath: string): HTMLElement {
+  const box = document.createElement('div');
+  box.className = 'wt-term';
+  const head = document.createElement('div');
+  head.className = 'wt-term-head';
+  const badge = document.createElement('span');
+  badge.className = 'wt-check-code';
+  badge.textContent = TERM_KIND_LABELS[cluster.kind];
+  const summary = document.createElement('span');
+  summary.className = 'wt-sub';
+  summary.textContent = cluster.canonical
+    ? `use "${cluster.canonical}"${offCanonicalUses(cluster) ? ` · ${offCanonicalUses(cluster)} to fix` : ''}`
+    : `${cluster.variants.length} forms`;
+  head.append(badge, summary);
+  if (cluster.canonical) {
+    const clear = document.createElement('button');
+    clear.textContent = 'Clear';
+    clear.title = 'Remove this term from the style sheet';
+    clear.onclick = () => setCanonical(cluster, null);
+    head.appendChild(clear);
+  }
+  box.appendChild(head);
+  for (const variant of cluster.variants) {
+    const row = document.createElement('div');
+    row.className = 'wt-term-variant';
+    if (cluster.canonical) row.dataset.state = variant.form === cluster.canonical ? 'canonical' : 'off';
+    const form = document.createElement('span');
+    form.className = 'wt-term-form';
+    form.textContent = variant.form;
+    const count = document.createElement('span');
+    count.className = 'wt-sub';
+    count.textContent = `×${variant.count}`;
+    const where = document.createElement('span');
+    where.className = 'wt-term-locations';
+    for (const loc of variant.locations.slice(0, 6)) {
+      const link = document.createElement('span');
+      link.className = 'wt-term-loc';
+      link.textContent = loc.path === openPath ? `${loc.line}` : `${loc.path.split('/').pop()}:${loc.line}`;
+      link.title = loc.path === openPath ? 'Jump to this line' : `In ${loc.path}; open that file to jump`;
+      link.onclick = () => jumpToIssue(loc, openPath);
+      where.appendChild(link);
+    }
+    if (variant.count > 6) where.append(` +${variant.count - 6}`);
+    row.append(form, count, where);
+    if (variant.form !== cluster.canonical) {
+      const use = document.createElement('button');
+      use.textContent = 'Use this';
+      use.title = 'Make this the preferred form for the project (the coach and Q&A follow it too)';
+      use.onclick = () => setCanonical(cluster, variant.form);
+      row.appendChild(use);
+    }
+    box.appendChild(row);
+  }
+  return box;
+}
+
+async function setCanonical(cluster: TermCluster, canonical: string | null) {
+  try {
+    await bg.call('terms:set', { doc: currentDocRef(), clusterId: cluster.id, canonical, variants: cluster.variants.map(v => v.form) });
+    await runTermChecks(await checkedText());
+  } catch (e: any) {
+    toast(`Could not save: ${e?.message || e}`);
+  }
+}
+
+async function jumpToIssue(issue: RefIssue | TermLocation, openPath: string) {
+  // Only the open file can be scrolled; other files are known from the project capture
+  if (issue.path !== openPath) { toast(`Open ${issue.path} to jump to line ${issue.line}`); return; }
+  const res = await callBridge({ type: 'reveal', line: issue.line });
+  if (!res?.ok) toast(res?.error || 'Editor not reachable');
+}
+
+// --- Inline annotations
+// Findings of the open file also show in the editor (underline, gutter marker, hover card).
+// Offsets come from one snapshot of the text the findings were computed on; from there the
+// bridge keeps them on their text through edits. Without CodeMirror 6 the panel alone shows them.
+const FINDING_ANNOTATION: Record<FindingSeverity, AnnotationSeverity> = { high: 'error', medium: 'warning', low: 'info' };
+const STYLE_ANNOTATION: Record<StyleRuleId, AnnotationSeverity> = {
+  'long-sentence': 'info',
+  'passive': 'info',
+  'hedge': 'info',
+  'repeated-word': 'warning',
+  'undefined-acronym': 'warning',
+  'hard-paragraph': 'info',
+};
+const dismissedAnnotations = new Set<string>(); // "group:id", for this page
+
+// `expect`: the text the findings refer to; skipped when the editor no longer holds it
+async function annotate(group: AnnotationGroup, build: (snap: DocSnapshot) => Annotation[], expect?: string) {
+  const snap = await requestDocSnapshot();
+  if (!snap || snap.editor !== 'cm6' || (expect !== undefined && snap.text !== expect)) return;
+  const annotations = build(snap).filter(a => !dismissedAnnotations.has(`${group}:${a.id}`));
+  const res = await callBridge({ type: 'annotate', group, annotations });
+  if (res && !res.ok) console.debug('WriteTank: no inline annotations:', res.error);
+}
+
+// Ids are coach item ids, so hover-card actions can mark the item in the coach history
+function annotateCoach(report?: CoachReport, region?: AnchorRange) {
+  annotate('coach', snap => (report?.findings ?? []).flatMap(f => {
+    const at = findingRange(snap.text, f, region);
+    if (!at) return [];
+    return [{
+      id: itemId(f.message),
+      ...at,
+      severity: FINDING_ANNOTATION[f.severity],
+      label: `Coach · ${FINDING_SEVERITIES[f.severity]} · ${FINDING_CATEGORIES[f.category]}`,
+      message: f.message,
+      ...(f.fix ? { fix: f.fix } : {}),
+    }];
+  }));
+}
+
+function annotateStyle(report: StyleReport, text: string) {
+  annotate('style', snap => report.issues.map(i => {
+    const span = snap.text.slice(i.from, i.to);
+    const repeated = i.rule === 'repeated-word' ? span.match(/^([A-Za-z]+)\s+\1$/i) : null;
+    return {
+      id: `${i.rule}:${simpleHash(span)}`,
+      from: i.from,
+      to: i.to,
+      severity: STYLE_ANNOTATION[i.rule],
+      label: `Style · ${STYLE_ISSUE_LABELS[i.rule]}`,
+      message: i.message,
+      ...(repeated ? { fix: repeated[1] } : {}),
+    };
+  }), text);
+}
+
+function annotateRefs(res: RefCheckResult & { path: string }, text: string) {
+  annotate('refs', () => res.issues.filter(i => i.path === res.path).map(i => ({
+    id: `${i.code}:${i.key}`,
+    from: i.from,
+    to: i.to,
+    severity: i.code === 'undefined-ref' || i.code === 'duplicate-label' ? 'error' : 'warning',
+    label: `References · ${REF_ISSUE_LABELS[i.code]}`,
+    message: i.message,
+  })), text);
+}
+
+// Apply fix / Dismiss on a hover card; coach items are marked in the latest run that has them
+async function onBridgeEvent(e: MessageEvent) {
+  const ev = e.data as BridgeEvent;
+  if (e.source !== window || ev?.source !== 'writetank:bridge-event' || ev.type !== 'annotation') return;
+  if (ev.action === 'dismiss') dismissedAnnotations.add(`${ev.group}:${ev.id}`);
+  if (ev.group !== 'coach') return;
+  const history = await bg.call('coach:history', { doc: currentDocRef() }).catch(() => [] as CoachRun[]);
+  const run = history.find(r => r.items.some(i => i.id === ev.id));
+  if (run) markCoachItem(run.id, ev.id, ev.action === 'apply' ? 'resolved' : 'dismissed');
+}
+
+// --- Edit-driven Auto-coach
+// The text as of the last edit-driven run (or when editing began), per file; the next run
+// coaches only the paragraphs that differ from it.
+const EDIT_IDLE_MS = 4000;
+const MIN_EDIT_CHARS = 40; // smaller edits accumulate until they add up to this much
+let editBaseline: { path: string; text: string } | null = null;
+let editTimer: ReturnType<typeof setTimeout> | undefined;
+let editCoachBusy = false;
+
+async function onEditorInput() {
+  clearTimeout(editTimer);
+  editTimer = setTimeout(coachEditedRegion, EDIT_IDLE_MS);
+  const path = currentDocRef().path;
+  if (editBaseline?.path === path) return;
+  // First keystroke in this file: remember what it looked like (near enough, one character in)
+  const snap = await requestDocSnapshot();
+  if (snap) editBaseline = { path, text: snap.text };
+}
+
+async function coachEditedRegion() {
+  if (editCoachBusy) return; // the edits keep accumulating against the same baseline
+  const doc = currentDocRef();
+  const snap = await requestDocSnapshot();
+  if (!snap || editBaseline?.path !== doc.path) return;
+  const regions = changedRegions(editBaseline.text, snap.text).filter(r => r.text.trim());
+  if (regions.reduce((n, r) => n + r.changedChars, 0) < MIN_EDIT_CHARS) return;
+  const s = await bg.call('settings:get', undefined).catch(() => null);
+  if (!s || s.paused || s.coachMode !== 'edit') {
+    // Not coaching edits now: start over from here rather than coach stale ones later
+    if (s) editBaseline = { path: doc.path, text: snap.text };
+    return;
+  }
+  const timeEl = writeTankPanel!.querySelector('#wt-time') as HTMLElement;
+  editCoachBusy = true;
+  try {
+    let coached = false;
+    for (const [i, region] of regions.entries()) {
+      const lines = `lines ${region.fromLine}–${region.toLine}`;
+      timeEl.textContent = `Coaching your edit (${lines}${regions.length > 1 ? `, ${i + 1} of ${regions.length}` : ''})…`;
+      const res = await bg.call('coach:edit', { text: region.text, doc, from: lineStart(snap.text, region.fromLine) }, renderCoachEvent);
+      if (!res) continue; // already coached, or coaching was paused meanwhile
+      renderCoachResult(res);
+      // Stopped (a question came first): keep the baseline so these edits are coached next time
+      if (res.stopped) return;
+      timeEl.textContent = `Coached ${lines}`;
+      coached = true;
+    }
+    editBaseline = { path: doc.path, text: snap.text };
+    if (!coached) refreshPauseLabel();
+  } catch (e: any) {
+    timeEl.textContent = `Error: ${e?.message || e}`;
+  } finally {
+    editCoachBusy = false;
+  }
+}
+
+// --- Coach history (earlier runs of this document)
+const SCOPE_LABELS: Record<CoachScope, string> = { visible: 'visible area', excerpt: 'selection', document: 'whole file', edit: 'edited paragraphs' };
+let coachHistory: CoachRun[] = [];
+const expandedRuns = new Set<string>();
+
+function coachHistoryShown(): boolean {
+  return (writeTankPanel?.querySelector('#wt-coach-history') as HTMLElement | null)?.style.display === 'block';
+}
+
+function toggleCoachHistory() {
+  const el = writeTankPanel!.querySelector('#wt-coach-history') as HTMLElement;
+  const show = !coachHistoryShown();
+  el.style.display = show ? 'block' : 'none';
+  writeTankPanel!.querySelector<HTMLButtonElement>('#wt-coach-history-toggle')!.textContent = show ? 'Hide history' : 'History';
+  if (show) refreshCoachHistory();
+}
+
+async function refreshCoachHistory() {
+  if (!coachHistoryShown()) return;
+  coachHistory = await bg.call('coach:history', { doc: currentDocRef() }).catch(() => []);
+  renderCoachHistory();
+}
+
+// Yesterday's advice stays on screen after a reload
+async function restoreLastCoachRun() {
+  const out = writeTankPanel!.querySelector('#wt-coach-out') as HTMLElement;
+  const [last] = await bg.call('coach:history', { doc: currentDocRef() }).catch(() => [] as CoachRun[]);
+  if (last && out.textContent === '(no suggestions yet)') showCoachRun(last);
+}
+
+function showCoachRun(run: CoachRun) {
+  renderCoach(run.report ? reportSummary(run.report) : run.text);
+  renderCheck('coach');
+  renderCitations('coach');
+  renderFindings(run.report, run.region);
+  annotateCoach(run.report, run.region);
+  (writeTankPanel!.querySelector('#wt-time') as HTMLElement).textContent = `From ${new Date(run.at).toLocaleString()}`;
+}
+
+function renderCoachHistory() {
+  const el = writeTankPanel!.querySelector('#wt-coach-history') as HTMLElement;
+  el.innerHTML = '';
+  if (!coachHistory.length) {
+    el.textContent = 'No coach runs for this file yet.';
+    return;
+  }
+  coachHistory.forEach((run, i) => {
+    const previous = coachHistory[i + 1];
+    const diff = compareRuns(run, previous);
+    const open = run.items.filter(it => it.status === 'open').length;
+    const row = document.createElement('div');
+    row.className = 'wt-history-run';
+
+    const head = document.createElement('div');
+    head.className = 'wt-history-head';
+    const when = document.createElement('span');
+    when.textContent = `${new Date(run.at).toLocaleString()} · ${SCOPE_LABELS[run.scope]}`;
+    const counts = document.createElement('span');
+    counts.className = 'wt-sub';
+    const changes = previous
+      ? ` · ${diff.added} new, ${diff.repeated} repeated, ${diff.dropped} gone${run.snippetHash === previous.snippetHash ? ' (text unchanged)' : ''}`
+      : '';
+    counts.textContent = `${open}/${run.items.length} open${changes}`;
+    head.append(when, counts);
+    head.addEventListener('click', () => {
+      if (!expandedRuns.delete(run.id)) expandedRuns.add(run.id);
+      renderCoachHistory();
+    });
+    row.appendChild(head);
+
+    if (expandedRuns.has(run.id)) {
+      const before = new Set(previous?.items.map(it => it.id) ?? []);
+      for (const item of run.items) {
+        const line = document.createElement('div');
+        line.className = 'wt-history-item';
+        line.dataset.status = item.status;
+        const text = document.createElement('span');
+        text.textContent = `${item.group ? `${item.group}: ` : ''}${item.text}`;
+        if (previous && !before.has(item.id)) text.title = 'New in this run';
+        line.appendChild(text);
+        const actions: [string, CoachItemStatus][] = item.status === 'open'
+          ? [['Resolved', 'resolved'], ['Dismiss', 'dismissed']]
+          : [['Reopen', 'open']];
+        for (const [label, status] of actions) {
+          const btn = document.createElement('button');
+          btn.textContent = label;
+          btn.addEventListener('click', () => markCoachItem(run.id, item.id, status));
+          line.appendChild(btn);
+        }
+        row.appendChild(line);
+      }
+      const show = document.createElement('button');
+      show.textContent = 'Show report';
+      show.addEventListener('click', () => showCoachRun(run));
+      row.appendChild(show);
+    }
+    el.appendChild(row);
+  });
+}
+
+async function markCoachItem(runId: string, itemId: string, status: CoachItemStatus) {
+  try {
+    coachHistory = await bg.call('coach:mark', { doc: currentDocRef(), runId, itemId, status });
+    renderCoachHistory();
+  } catch (e: any) {
+    toast(e?.message || 'Could not update');
+  }
+}
+
+// --- Outline (sections of the open file)
+function timeAgo(ts: number): string {
+  const min = Math.round((Date.now() - ts) / 60000);
+  if (min < 1) return 'just now';
+  if (min < 60) return `${min} min ago`;
+  const h = Math.round(min / 60);
+  return h < 48 ? `${h} h ago` : `${Math.round(h / 24)} d ago`;
+}
+
+async function refreshOutline() {
+  const btn = writeTankPanel!.querySelector<HTMLButtonElement>('#wt-outline-refresh')!;
+  const status = writeTankPanel!.querySelector('#wt-outline-status') as HTMLElement;
+  btn.disabled = true;
+  status.textContent = 'Reading sections…';
+  try {
+    const sample = await grabEditorText(false);
+    renderOutline(await bg.call('outline:get', { text: sample.text, doc: currentDocRef() }));
+  } catch (e: any) {
+    status.textContent = `(error) ${e?.message || e}`;
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+function renderOutline(entries: OutlineEntry[]) {
+  const status = writeTankPanel!.querySelector('#wt-outline-status') as HTMLElement;
+  const list = writeTankPanel!.querySelector('#wt-outline-list') as HTMLElement;
+  // Indent and total relative to the top level present (a paper without chapters starts at \section)
+  const top = Math.min(...entries.map(e => e.level));
+  const words = entries.filter(e => e.level === top).reduce((n, e) => n + e.words, 0);
+  const stale = entries.filter(e => e.stale).length;
+  status.textContent = entries.length
+    ? `${entries.length} section${entries.length === 1 ? '' : 's'} · ${words} words${stale ? ` · ${stale} stale summar${stale === 1 ? 'y' : 'ies'}` : ''}`
+    : 'No \\chapter, \\section or \\subsection headings in this file';
+  list.innerHTML = '';
+  for (const entry of entries) {
+    const row = document.createElement('div');
+    row.className = 'wt-outline-row';
+    row.dataset.level = String(entry.level - top);
+
+    const head = document.createElement('div');
+    head.className = 'wt-outline-head';
+    const title = document.createElement('span');
+    title.className = 'wt-outline-title';
+    title.textContent = entry.title;
+    title.title = `Jump to line ${entry.startLine}`;
+    title.addEventListener('click', async () => {
+      const res = await callBridge({ type: 'reveal', line: entry.startLine });
+      if (!res?.ok) toast(res?.error || 'Editor not reachable');
+    });
+    const badge = document.createElement('span');
+    badge.className = 'wt-outline-badge';
+    badge.dataset.state = !entry.summary ? 'none' : entry.stale ? 'stale' : 'ok';
+    badge.textContent = !entry.summary ? 'no summary' : entry.stale ? 'stale' : 'summary';
+    badge.title = entry.stale ? 'The section changed since this summary was made' : '';
+    head.append(title, badge);
+
+    const meta = document.createElement('div');
+    meta.className = 'wt-sub';
+    meta.textContent = `${entry.words} words · ${entry.coachedAt ? `coached ${timeAgo(entry.coachedAt)}` : 'not coached yet'}`;
+
+    row.append(head, meta);
+    if (entry.summary) {
+      const summary = document.createElement('div');
+      summary.className = 'wt-outline-summary';
+      summary.textContent = entry.summary;
+      summary.title = `Summarized ${timeAgo(entry.summarizedAt ?? Date.now())}; click to expand`;
+      summary.addEventListener('click', () => summary.classList.toggle('expanded'));
+      row.appendChild(summary);
+    }
+
+    const buttons = document.createElement('div');
+    buttons.className = 'wt-row';
+    const summarize = document.createElement('button');
+    summarize.textContent = entry.summary ? 'Re-summarize' : 'Summarize';
+    summarize.addEventListener('click', () => summarizeSection(entry, summarize));
+    const coach = document.createElement('button');
+    coach.textContent = 'Coach';
+    coach.addEventListener('click', () => coachSection(entry));
+    buttons.append(summarize, coach);
+    row.appendChild(buttons);
+    list.appendChild(row);
+  }
+}
+
+async function summarizeSection(entry: OutlineEntry, btn: HTMLButtonElement) {
+  const status = writeTankPanel!.querySelector('#wt-outline-status') as HTMLElement;
+  btn.disabled = true;
+  btn.textContent = 'Summarizing…';
+  try {
+    // The current text, so the summary's hash matches what the section says now
+    const sample = await grabEditorText(false);
+    renderOutline(await bg.call('outline:summarize', { text: sample.text, sectionId: entry.id, doc: currentDocRef() }));
+  } catch (e: any) {
+    status.textContent = `(error) ${e?.message || e}`;
+    btn.disabled = false;
+    btn.textContent = entry.summary ? 'Re-summarize' : 'Summarize';
+  }
+}
+
+async function coachSection(entry: OutlineEntry) {
+  const sample = await grabEditorText(false);
+  const section = parseOutline(sample.text).find(s => s.id === entry.id);
+  if (!section) { toast('Section not found; refresh the outline'); return; }
+  showPanel('coach');
+  const from = sample.from === undefined ? undefined : sample.from + lineStart(sample.text, section.startLine);
+  await coachSnippet(sectionText(sample.text, section), `Coaching "${section.title}"…`, from);
+  refreshOutline();
+}
+
+// --- Apply answer into the editor
+type ApplyMode = 'replace' | 'below' | 'cursor';
+const APPLY_TITLES: Record<ApplyMode, string> = {
+  replace: 'Replace selection',
+  below: 'Insert below',
+  cursor: 'Insert at cursor',
+};
+let pendingEdit: ApplyEdit | null = null;
+
+// Work out the edit for `mode` against the live editor state and show it as a diff
+async function previewApply(mode: ApplyMode) {
+  const proposed = qaAnswer.trim();
+  if (!proposed) { toast('No answer to apply'); return; }
+  const doc = await requestDocSnapshot();
+  if (!doc) { toast('Editor not reachable; use Copy'); return; }
+  const sel = doc.selections[0] ?? { from: 0, to: 0, text: '' };
+  let edit: ApplyEdit;
+  if (mode === 'replace') {
+    if (sel.from === sel.to) { toast('Select the text to replace first'); return; }
+    edit = { from: sel.from, to: sel.to, insert: proposed, expect: sel.text };
+  } else if (mode === 'below') {
+    const eol = doc.text.indexOf('\n', sel.to);
+    const at = eol < 0 ? doc.text.length : eol;
+    edit = { from: at, to: at, insert: '\n' + proposed, expect: '' };
+  } else {
+    edit = { from: sel.to, to: sel.to, insert: proposed, expect: '' };
+  }
+  pendingEdit = edit;
+  renderDiff(APPLY_TITLES[mode], edit.expect, edit.insert);
+}
+
+function renderDiff(title: string, before: string, after: string) {
+  const box = writeTankPanel!.querySelector('#wt-diff') as HTMLElement;
+  const body = writeTankPanel!.querySelector('#wt-diff-body') as HTMLElement;
+  (writeTankPanel!.querySelector('#wt-diff-title') as HTMLElement).textContent = `Preview: ${title}`;
+  body.innerHTML = '';
+  for (const op of diffWords(before, after)) {
+    const span = document.createElement('span');
+    if (op.type !== 'equal') span.className = op.type === 'insert' ? 'wt-ins' : 'wt-del';
+    span.textContent = op.text;
+    body.appendChild(span);
+  }
+  box.style.display = 'block';
+}
+
+function closeDiff() {
+  pendingEdit = null;
+  const box = writeTankPanel?.querySelector('#wt-diff') as HTMLElement | null;
+  if (box) box.style.display = 'none';
+}
+
+async function confirmApply() {
+  if (!pendingEdit) return;
+  const res = await callBridge({ type: 'apply', edit: pendingEdit });
+  if (res?.ok) {
+    closeDiff();
+    toast('Applied (Ctrl/Cmd+Z to undo)');
+  } else {
+    toast(res?.error || 'Editor not reachable; use Copy');
+  }
 }
 
 function copyText(t: string) {
@@ -335,8 +1614,159 @@ function toast(msg: string) {
   setTimeout(() => t.remove(), 1200);
 }
 
-// Grab selection or Overleaf editor text (CodeMirror or Ace), trimmed
-function grabEditorText(preferSelection = true, mode: 'all' | 'visible' = 'all'): { selection: string; text: string; wasTruncated: boolean } {
+// --- Project indexing
+// Overleaf's file tree renders entries as li[role=treeitem] with the name in aria-label
+function treeItemPath(item: Element): string {
+  const parts: string[] = [];
+  for (let el: Element | null = item; el; el = el.parentElement?.closest('li[role="treeitem"]') ?? null) {
+    const name = el.getAttribute('aria-label') || el.querySelector('.item-name-button span, .name')?.textContent || '';
+    if (name.trim()) parts.unshift(name.trim());
+  }
+  return parts.join('/');
+}
+
+function currentDocRef(): DocRef {
+  const selected = document.querySelector('li[role="treeitem"][aria-selected="true"]');
+  return { projectId: projectIdFromUrl(location.href), path: selected ? treeItemPath(selected) : 'unknown' };
+}
+
+// .tex/.bib files visible in the file tree (collapsed folders are not rendered)
+function listTreeFiles(): string[] {
+  return Array.from(document.querySelectorAll('li[role="treeitem"]:not([aria-expanded])'))
+    .map(treeItemPath)
+    .filter(isIndexablePath);
+}
+
+let lastCapturedHash = '';
+
+// Store the open file's full text; DOM scraping is partial, so only bridge snapshots count
+async function captureCurrentFile() {
+  const doc = currentDocRef();
+  if (!isIndexablePath(doc.path)) return;
+  const snap = await requestDocSnapshot();
+  if (!snap) return;
+  const hash = simpleHash(doc.path + '\n' + snap.text);
+  if (hash === lastCapturedHash) return;
+  lastCapturedHash = hash;
+  await bg.call('project:capture', { projectId: doc.projectId, source: 'editor', files: [{ path: doc.path, text: snap.text }] }).catch(() => null);
+  refreshProjectStatus();
+}
+
+// Fetch the whole project through Overleaf's download route and index every .tex/.bib
+async function indexProjectFromZip() {
+  const btn = writeTankPanel!.querySelector<HTMLButtonElement>('#wt-index')!;
+  const statusEl = writeTankPanel!.querySelector('#wt-proj-status') as HTMLElement;
+  const { projectId } = currentDocRef();
+  if (!/\/project\/[0-9a-f]{24}/i.test(location.pathname)) { statusEl.textContent = 'Project: not an Overleaf project page'; return; }
+  btn.disabled = true;
+  statusEl.textContent = 'Project: downloading…';
+  try {
+    const res = await fetch(`/project/${projectId}/download/zip`, { credentials: 'include' });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const entries = await unzipText(await res.arrayBuffer(), isIndexablePath);
+    await bg.call('project:capture', { projectId, source: 'zip', files: entries.map(e => ({ path: e.name, text: e.text })) });
+    await refreshProjectStatus();
+  } catch (e: any) {
+    statusEl.textContent = `Project: index failed (${e?.message || e})`;
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+async function refreshProjectStatus() {
+  const statusEl = writeTankPanel?.querySelector('#wt-proj-status') as HTMLElement | null;
+  if (!statusEl) return;
+  const files = await bg.call('project:info', { projectId: currentDocRef().projectId }).catch(() => []);
+  const indexed = files.map(f => f.path);
+  const inTree = listTreeFiles();
+  const missing = inTree.filter(p => !indexed.includes(p)).length;
+  statusEl.textContent = indexed.length
+    ? `Project: ${indexed.length} file${indexed.length === 1 ? '' : 's'} indexed${missing ? ` (${missing} not yet opened)` : ''}`
+    : 'Project: no files indexed';
+  statusEl.title = indexed.join('\n');
+}
+
+// --- Page-world bridge client
+let bridgeSeq = 0;
+
+// Post a request to bridge.ts; null if no bridge answers in time
+function callBridge(call: BridgeCall, timeoutMs = 300): Promise<BridgeResponse | null> {
+  const id = ++bridgeSeq;
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => { window.removeEventListener('message', onMessage); resolve(null); }, timeoutMs);
+    function onMessage(e: MessageEvent) {
+      const res = e.data as BridgeResponse;
+      if (e.source !== window || res?.source !== 'writetank:bridge' || res.id !== id) return;
+      clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+      resolve(res);
+    }
+    window.addEventListener('message', onMessage);
+    window.postMessage({ source: 'writetank:content', id, ...call } as BridgeRequest, '*');
+  });
+}
+
+// Editing in these (besides the bridge's own reads) restarts the edit-driven Auto-coach timer
+let editorSelector = '.cm-content, .ace_editor';
+
+// Tell bridge.ts which editor this site uses (options page: sites and their editor adapters).
+// Sites other than overleaf.com may edit in a plain textarea/contenteditable.
+async function configureBridge() {
+  const s = await bg.call('settings:get', undefined).catch(() => null);
+  const site = siteFor(location.href, s?.sites ?? []);
+  const adapter = site?.adapter ?? 'auto';
+  if (adapter === 'textarea' || (adapter === 'auto' && site?.origin !== BUILTIN_SITE.origin)) {
+    editorSelector = '.cm-content, .ace_editor, textarea, [contenteditable]';
+  }
+  await callBridge({ type: 'configure', adapter });
+}
+
+// Ask bridge.ts for the editor's real document; null if no bridge/editor answers in time
+async function requestDocSnapshot(timeoutMs = 300): Promise<DocSnapshot | null> {
+  const res = await callBridge({ type: 'doc' }, timeoutMs);
+  return res?.ok && res.doc ? res.doc : null;
+}
+
+// Grab selection or Overleaf editor text, untrimmed: the background budgets Q&A context
+// by tokens and chunks text for coaching.
+// Prefers the editor state read by the bridge (complete and exact); scrapes the DOM otherwise.
+async function grabEditorText(preferSelection = true, mode: 'all' | 'visible' = 'all'): Promise<EditorSample> {
+  const doc = await requestDocSnapshot();
+  if (doc) return sampleFromSnapshot(doc, preferSelection, mode);
+  return grabEditorTextFromDom(preferSelection, mode);
+}
+
+function sampleFromSnapshot(doc: DocSnapshot, preferSelection: boolean, mode: 'all' | 'visible'): EditorSample {
+  const main = doc.selections[0]?.text ?? '';
+  const sel = main.trim() ? main : '';
+  let text = '';
+  let from = 0;
+  if (preferSelection) {
+    // Stay empty without a selection; do NOT fallback to full document
+    text = sel;
+    from = doc.selections[0]?.from ?? 0;
+  } else if (mode === 'visible') {
+    // padding only below: do not extend above the first visible line
+    const lines = doc.text.split('\n');
+    const pad = 16;
+    text = lines.slice(doc.visibleFromLine - 1, Math.min(lines.length, doc.visibleToLine + pad)).join('\n');
+    from = lineStart(doc.text, doc.visibleFromLine);
+  } else {
+    text = doc.text;
+  }
+  return finalizeSample(sel, text, doc.editor, from);
+}
+
+// Normalize line endings and surrounding whitespace (`from` moves past what is trimmed)
+function finalizeSample(sel: string, text: string, source: EditorSample['source'], from?: number): EditorSample {
+  const lead = text.length - text.trimStart().length;
+  text = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').trim();
+  return { selection: sel, text, source, from: from === undefined ? undefined : from + lead };
+}
+
+// Fallback: scrape rendered editor lines. CodeMirror 6 virtualizes rendering, so
+// "all" here only covers lines currently rendered around the viewport.
+function grabEditorTextFromDom(preferSelection = true, mode: 'all' | 'visible' = 'all'): EditorSample {
   // Try multiple methods to get selection
   let sel = '';
   
@@ -527,64 +1957,59 @@ function grabEditorText(preferSelection = true, mode: 'all' | 'visible' = 'all')
     }
   }
   
-  // Clean up the text
-  text = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').trim();
+  const sample = finalizeSample(sel, text, 'dom');
   
-  // Trim to match background script limits (1500 chars)
-  const max = 1500;
-  const wasTruncated = text.length > max;
-  if (wasTruncated) {
-    text = text.slice(0, max);
-  }
-  
-  console.log('Final text length:', text.length);
-  console.log('Final text preview:', `"${text.substring(0, 100)}${text.length > 100 ? '...' : ''}"`);
-  console.log('Text was truncated:', wasTruncated);
+  console.log('Final text length:', sample.text.length);
+  console.log('Final text preview:', `"${sample.text.substring(0, 100)}${sample.text.length > 100 ? '...' : ''}"`);
   console.log('========================');
   
-  return { selection: sel, text, wasTruncated };
+  return sample;
 }
 
-// Listen for background messages (coach results, etc.)
-chrome.runtime.onMessage.addListener((msg) => {
-  if (msg?.cmd === 'coach:answer') {
-    renderCoach(msg.text, msg.updatedAt);
-  }
-  if (msg?.cmd === 'coach:status') {
-    const timeEl = writeTankPanel!.querySelector('#wt-time') as HTMLElement;
-    if (timeEl) timeEl.textContent = msg.text || '';
-  }
-  if (msg?.cmd === 'coach:answer:delta') {
-    renderCoachDelta(msg.text);
-  }
-  if (msg?.cmd === 'qa:answer:delta') {
-    renderQADelta(msg.text);
-  }
-  return undefined;
+// --- Background connection (typed RPC, see messages.ts)
+// Answers the background's grabText and renders coach runs it starts on its own (alarm, popup)
+const bg = connectBackground<ContentMethods, PushStreams>({
+  grabText: async ({ mode }) => {
+    const sample = await grabEditorText(false, mode === 'visible' ? 'visible' : 'all');
+    return { text: sample.text, doc: currentDocRef(), from: sample.from };
+  },
+  command: runPanelCommand,
+}, {
+  coach: {
+    delta: renderCoachEvent,
+    done: renderCoachResult,
+    error: (error) => {
+      (writeTankPanel!.querySelector('#wt-time') as HTMLElement).textContent = `(error) ${error}`;
+    },
+  },
+  notice: {
+    done: (text) => {
+      (writeTankPanel!.querySelector('#wt-time') as HTMLElement).textContent = text;
+    },
+  },
 });
 
-// Respond to background asking for current text
-chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
-  if (msg?.cmd === 'grabText') {
-    const mode = msg?.mode === 'visible' ? 'visible' : 'all';
-    const sample = grabEditorText(false, mode);
-    // Send only the text to maintain compatibility with background script
-    sendResponse({ text: sample.text });
-    return true;
-  }
+// The worker restarted and needs this tab again (e.g. for an alarm tick)
+chrome.runtime.onMessage.addListener((msg: RpcWake) => {
+  if (msg?.type === 'writetank:connect') bg.connect();
+  return undefined;
 });
 
 // Pause/Resume helpers
 async function refreshPauseLabel() {
-  const s = await chrome.runtime.sendMessage({ cmd: 'settings:get' });
+  const s = await bg.call('settings:get', undefined).catch(() => null);
   const b = writeTankPanel!.querySelector<HTMLButtonElement>('#wt-pause')!;
   b.textContent = s?.paused ? 'Resume' : 'Pause';
   const timeEl = writeTankPanel!.querySelector('#wt-time') as HTMLElement;
-  timeEl.textContent = s?.paused ? 'Auto-coach: Paused' : 'Auto-coach: On';
+  const mode = !s ? 'On'
+    : s.coachMode === 'edit' ? 'on edit'
+    : s.coachMode === 'interval' ? `every ${s.intervalMin} min`
+    : 'manual only';
+  timeEl.textContent = s?.paused ? 'Auto-coach: Paused' : `Auto-coach: ${mode}`;
 }
 async function togglePause() {
-  const s = await chrome.runtime.sendMessage({ cmd: 'settings:get' });
-  await chrome.runtime.sendMessage({ cmd: 'settings:set', patch: { paused: !s?.paused } });
+  const s = await bg.call('settings:get', undefined);
+  await bg.call('settings:set', { patch: { paused: !s.paused } });
   refreshPauseLabel();
 }
 
@@ -0,0 +1,122 @@
+// WriteTank — Word-level diff
+// - LCS over word/space/punctuation tokens, merged into equal/insert/delete runs
+// - Used to preview a suggestion against the selected original before applying it
+// - Changed paragraphs between two versions of a file (edit-driven coaching)
+
+export type DiffOp = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+// Above this many LCS cells, fall back to "delete all, insert all"
+const MAX_CELLS = 4_000_000;
+
+export function tokenizeWords(s: string): string[] {
+  return s.match(/\s+|[\p{L}\p{N}_]+|\\[A-Za-z]+|[^\s\p{L}\p{N}_]/gu) || [];
+}
+
+function push(ops: DiffOp[], type: DiffOp['type'], text: string) {
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) last.text += text;
+  else ops.push({ type, text });
+}
+
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = tokenizeWords(before);
+  const b = tokenizeWords(after);
+  const ops: DiffOp[] = [];
+  if (a.length * b.length > MAX_CELLS) {
+    if (before) push(ops, 'delete', before);
+    if (after) push(ops, 'insert', after);
+    return ops;
+  }
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const w = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * w);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * w + j] = a[i] === b[j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+    }
+  }
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push(ops, 'equal', a[i]); i++; j++; }
+    else if (lcs[(i + 1) * w + j] >= lcs[i * w + j + 1]) { push(ops, 'delete', a[i]); i++; }
+    else { push(ops, 'insert', b[j]); j++; }
+  }
+  while (i < a.length) push(ops, 'delete', a[i++]);
+  while (j < b.length) push(ops, 'insert', b[j++]);
+  return ops;
+}
+
+export type ChangedRegion = {
+  fromLine: number;     // 1-based, in `after`
+  toLine: number;
+  text: string;         // the whole paragraph around the change(s), from `after`
+  changedChars: number; // inserted + deleted characters
+};
+
+type Hunk = { a0: number; a1: number; b0: number; b1: number }; // lines [a0, a1) of `before` became [b0, b1) of `after`
+
+// Changed line runs, by LCS over the lines between the common head and tail
+function lineHunks(a: string[], b: string[]): Hunk[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_CELLS) return [{ a0: start, a1: endA, b0: start, b1: endB }];
+  const w = m + 1;
+  const lcs = new Uint32Array((n + 1) * w);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * w + j] = a[start + i] === b[start + j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+    }
+  }
+  const hunks: Hunk[] = [];
+  let open: Hunk | null = null;
+  let i = 0, j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      if (open) { hunks.push(open); open = null; }
+      i++; j++;
+      continue;
+    }
+    open ??= { a0: start + i, a1: start + i, b0: start + j, b1: start + j };
+    if (j >= m || (i < n && lcs[(i + 1) * w + j] >= lcs[i * w + j + 1])) open.a1 = start + ++i;
+    else open.b1 = start + ++j;
+  }
+  if (open) hunks.push(open);
+  return hunks;
+}
+
+// What changed between two versions of a file: one region per changed paragraph (blank-line
+// bounded, so each reads on its own), top to bottom. Empty when the texts are equal.
+export function changedRegions(before: string, after: string): ChangedRegion[] {
+  if (before === after) return [];
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const regions: ChangedRegion[] = [];
+  for (const h of lineHunks(a, b)) {
+    const changedChars = diffWords(a.slice(h.a0, h.a1).join('\n'), b.slice(h.b0, h.b1).join('\n'))
+      .filter(op => op.type !== 'equal')
+      .reduce((n, op) => n + op.text.length, 0);
+    // A pure deletion leaves no changed line in `after`; use the line where it happened
+    let from = Math.min(h.b0, b.length - 1);
+    let to = Math.max(from, Math.min(h.b1 - 1, b.length - 1));
+    // Added or removed blank lines at the edges belong to no paragraph
+    while (from < to && !b[from].trim()) from++;
+    while (to > from && !b[to].trim()) to--;
+    while (from > 0 && b[from - 1].trim()) from--;
+    while (to < b.length - 1 && b[to + 1].trim()) to++;
+    // Several changes in one paragraph make one region
+    const last = regions[regions.length - 1];
+    if (last && from < last.toLine) {
+      last.toLine = Math.max(last.toLine, to + 1);
+      last.changedChars += changedChars;
+    } else {
+      regions.push({ fromLine: from + 1, toLine: to + 1, text: '', changedChars });
+    }
+  }
+  for (const r of regions) r.text = b.slice(r.fromLine - 1, r.toLine).join('\n');
+  return regions;
+}
@@ -0,0 +1,123 @@
+// WriteTank — Background job queue
+// - One model request at a time (local models serve requests serially anyway)
+// - Priorities: interactive Q&A first, auto-coach and summaries last
+// - Identical pending/running jobs (same key) share one run, at the most urgent caller's priority;
+//   every caller that joined gets its progress
+// - Every job gets its own AbortController so it can be stopped mid-stream
+
+export type JobKind = 'qa' | 'action' | 'coach' | 'expand' | 'summary';
+
+// Lower runs first
+export const PRIORITY = {
+  interactive: 0, // Q&A typed by the user, prompt actions
+  manual: 1,      // "Run now", "More detail"
+  auto: 2,        // alarm-driven coaching
+  background: 3,  // summary cache refresh
+} as const;
+
+export type JobSpec<T, D = never> = {
+  kind: JobKind;
+  priority: number;
+  key: string;           // dedupe key: identical jobs share one run
+  tabId?: number;        // tab the job works for, so a panel can stop only its own jobs
+  preemptible?: boolean; // abort when a higher-priority job arrives (it can simply run again later)
+  emit?: (delta: D) => void; // this caller's progress listener
+  // `emit` reaches every caller sharing the run (a late one first gets what was already sent)
+  run: (signal: AbortSignal, emit: (delta: D) => void) => Promise<T>;
+};
+
+export type JobInfo = { id: number; kind: JobKind; priority: number; key: string; tabId?: number; state: 'pending' | 'running' };
+
+type Job = JobSpec<unknown, unknown> & {
+  id: number;
+  listeners: ((delta: unknown) => void)[];
+  sent: unknown[];
+  state: 'pending' | 'running';
+  controller: AbortController;
+  promise: Promise<unknown>;
+  resolve: (v: unknown) => void;
+  reject: (e: unknown) => void;
+};
+
+export function isAbortError(e: unknown): boolean {
+  return (e as { name?: string } | null)?.name === 'AbortError';
+}
+
+function abortError(message: string) {
+  return new DOMException(message, 'AbortError');
+}
+
+export function createJobQueue() {
+  const pending: Job[] = [];
+  let running: Job | null = null;
+  let seq = 0;
+
+  function info(j: Job): JobInfo {
+    return { id: j.id, kind: j.kind, priority: j.priority, key: j.key, tabId: j.tabId, state: j.state };
+  }
+
+  function pump() {
+    if (running || pending.length === 0) return;
+    // Stable: equal priorities keep arrival order
+    pending.sort((a, b) => a.priority - b.priority || a.id - b.id);
+    const job = pending.shift()!;
+    running = job;
+    job.state = 'running';
+    const emit = (delta: unknown) => {
+      job.sent.push(delta);
+      for (const listener of job.listeners) listener(delta);
+    };
+    job.run(job.controller.signal, emit)
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        running = null;
+        pump();
+      });
+  }
+
+  function enqueue<T, D = never>(spec: JobSpec<T, D>): Promise<T> {
+    const dup = [running, ...pending].find(j => j && j.key === spec.key && !j.controller.signal.aborted);
+    if (dup) {
+      // A more urgent caller (a manual "Run now" joining an alarm-driven run) takes the shared job
+      // over: it runs at the caller's priority and is no longer stopped for other work
+      if (spec.priority < dup.priority) dup.priority = spec.priority;
+      if (!spec.preemptible) dup.preemptible = false;
+      if (dup.state === 'pending' && running?.preemptible && dup.priority < running.priority) running.controller.abort();
+      if (spec.emit) {
+        const listener = spec.emit as (delta: unknown) => void;
+        for (const delta of dup.sent) listener(delta);
+        dup.listeners.push(listener);
+      }
+      return dup.promise as Promise<T>;
+    }
+    let resolve!: (v: unknown) => void;
+    let reject!: (e: unknown) => void;
+    const promise = new Promise<unknown>((res, rej) => { resolve = res; reject = rej; });
+    const listeners = spec.emit ? [spec.emit as (delta: unknown) => void] : [];
+    const job: Job = { ...(spec as JobSpec<unknown, unknown>), id: ++seq, state: 'pending', listeners, sent: [], controller: new AbortController(), promise, resolve, reject };
+    pending.push(job);
+    if (running?.preemptible && spec.priority < running.priority) running.controller.abort();
+    pump();
+    return promise as Promise<T>;
+  }
+
+  // Abort the running job and drop pending ones that match; returns how many were stopped
+  function cancel(match: (j: JobInfo) => boolean): number {
+    let n = 0;
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const j = pending[i];
+      if (!match(info(j))) continue;
+      pending.splice(i, 1);
+      j.controller.abort();
+      j.reject(abortError('Cancelled before start'));
+      n++;
+    }
+    if (running && match(info(running))) {
+      running.controller.abort();
+      n++;
+    }
+    return n;
+  }
+
+  return { enqueue, cancel };
+}
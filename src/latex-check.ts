@@ -0,0 +1,262 @@
+// WriteTank — LaTeX tokenizer and structural validator
+// - Tokenizes commands, groups, math delimiters, comments and verbatim blocks
+// - Checks environment nesting (any name), brace balance, unclosed/stray math
+//   delimiters and \item outside a list
+// - Repairs what is safe (closing what was left open, dropping stray closers) and
+//   reports everything as diagnostics; \item outside a list is left to the writer
+
+export type LatexToken =
+  | { type: 'command'; name: string; offset: number; length: number } // \name or \<symbol>
+  | { type: 'begin' | 'end'; env: string; offset: number; length: number }
+  | { type: 'open' | 'close'; offset: number; length: number } // { }
+  | { type: 'math'; delim: '$' | '$$' | '\\(' | '\\)' | '\\[' | '\\]'; offset: number; length: number }
+  | { type: 'par'; offset: number; length: number } // blank line
+  | { type: 'comment' | 'verbatim' | 'text'; offset: number; length: number };
+
+export type LatexDiagnosticCode =
+  | 'unclosed-env'
+  | 'unmatched-end'
+  | 'unclosed-brace'
+  | 'unmatched-brace'
+  | 'unclosed-math'
+  | 'unmatched-math'
+  | 'item-outside-list';
+
+export type LatexDiagnostic = {
+  code: LatexDiagnosticCode;
+  message: string;
+  line: number; // 1-based
+  col: number;  // 0-based
+  fixed: boolean;
+};
+
+export type LatexReport = { fixed: number; unresolved: number; diagnostics: LatexDiagnostic[] };
+
+// Bodies of these are not LaTeX
+const VERBATIM_ENVS = /^(?:verbatim\*?|Verbatim|lstlisting|minted|comment|alltt)$/;
+const LIST_ENV = /itemize|enumerate|description|list|enum|inparaitem|asparaitem/i;
+
+export function tokenizeLatex(text: string): LatexToken[] {
+  const tokens: LatexToken[] = [];
+  let textStart = -1;
+  const flushText = (end: number) => {
+    if (textStart >= 0 && end > textStart) tokens.push({ type: 'text', offset: textStart, length: end - textStart });
+    textStart = -1;
+  };
+  const push = (t: LatexToken) => { flushText(t.offset); tokens.push(t); };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\\') {
+      const name = /^[A-Za-z@]+\*?/.exec(text.slice(i + 1, i + 64))?.[0];
+      if (!name) {
+        const next = text[i + 1] ?? '';
+        if (next === '(' || next === ')' || next === '[' || next === ']') {
+          push({ type: 'math', delim: `\\${next}` as '\\(' | '\\)' | '\\[' | '\\]', offset: i, length: 2 });
+        } else {
+          push({ type: 'command', name: next, offset: i, length: next ? 2 : 1 }); // \\, \{, \$, \%, …
+        }
+        i += 2;
+        continue;
+      }
+      if (name === 'begin' || name === 'end') {
+        const m = /^\s*\{([^{}\s]+)\}/.exec(text.slice(i + 1 + name.length, i + 200));
+        if (m) {
+          const length = 1 + name.length + m[0].length;
+          push({ type: name, env: m[1], offset: i, length });
+          i += length;
+          if (name === 'begin' && VERBATIM_ENVS.test(m[1])) {
+            const close = text.indexOf(`\\end{${m[1]}}`, i);
+            const end = close < 0 ? text.length : close;
+            if (end > i) push({ type: 'verbatim', offset: i, length: end - i });
+            i = end;
+          }
+          continue;
+        }
+      }
+      if (name === 'verb' || name === 'verb*') {
+        // \verb|...| with any delimiter
+        const delim = text[i + 1 + name.length];
+        const close = delim ? text.indexOf(delim, i + 2 + name.length) : -1;
+        const end = close < 0 ? text.length : close + 1;
+        push({ type: 'verbatim', offset: i, length: end - i });
+        i = end;
+        continue;
+      }
+      push({ type: 'command', name, offset: i, length: 1 + name.length });
+      i += 1 + name.length;
+    } else if (ch === '%') {
+      const nl = text.indexOf('\n', i);
+      const end = nl < 0 ? text.length : nl;
+      push({ type: 'comment', offset: i, length: end - i });
+      i = end;
+    } else if (ch === '{' || ch === '}') {
+      push({ type: ch === '{' ? 'open' : 'close', offset: i, length: 1 });
+      i++;
+    } else if (ch === '$') {
+      const double = text[i + 1] === '$';
+      push({ type: 'math', delim: double ? '$$' : '$', offset: i, length: double ? 2 : 1 });
+      i += double ? 2 : 1;
+    } else if (ch === '\n' && /^\n[ \t]*\n/.test(text.slice(i, i + 64))) {
+      const m = /^\n(?:[ \t]*\n)+/.exec(text.slice(i))!;
+      push({ type: 'par', offset: i, length: m[0].length });
+      i += m[0].length;
+    } else {
+      if (textStart < 0) textStart = i;
+      i++;
+    }
+  }
+  flushText(text.length);
+  return tokens;
+}
+
+type Frame =
+  | { kind: 'env'; env: string; offset: number }
+  | { kind: 'brace'; offset: number }
+  | { kind: 'math'; delim: '$' | '$$' | '\\(' | '\\['; offset: number };
+
+const MATH_CLOSER = { '$': '$', '$$': '$$', '\\(': '\\)', '\\[': '\\]' } as const;
+
+function closerOf(f: Frame): string {
+  if (f.kind === 'env') return `\\end{${f.env}}`;
+  if (f.kind === 'brace') return '}';
+  return MATH_CLOSER[f.delim];
+}
+
+function describe(f: Frame): string {
+  if (f.kind === 'env') return `\\begin{${f.env}}`;
+  if (f.kind === 'brace') return '{';
+  return f.delim;
+}
+
+// Check `text` and repair what is safe. The returned text equals the input when nothing was fixed.
+export function checkLatex(text: string): { text: string; report: LatexReport } {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === '\n') lineStarts.push(i + 1);
+  const position = (offset: number) => {
+    let lo = 0, hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid; else hi = mid - 1;
+    }
+    return { line: lo + 1, col: offset - lineStarts[lo] };
+  };
+
+  const diagnostics: LatexDiagnostic[] = [];
+  const edits: { at: number; remove: number; insert: string }[] = [];
+  const report = (code: LatexDiagnosticCode, message: string, offset: number, fixed: boolean) =>
+    diagnostics.push({ code, message, ...position(offset), fixed });
+
+  const stack: Frame[] = [];
+  // Close every frame above stack[index] at `at` (they were left open)
+  const closeAbove = (index: number, at: number) => {
+    for (let k = stack.length - 1; k > index; k--) {
+      const f = stack[k];
+      edits.push({ at, remove: 0, insert: closerOf(f) });
+      report(f.kind === 'env' ? 'unclosed-env' : f.kind === 'brace' ? 'unclosed-brace' : 'unclosed-math',
+        `${describe(f)} is never closed; inserted ${closerOf(f)}`, f.offset, true);
+    }
+    stack.length = index + 1;
+  };
+  const findFrame = (match: (f: Frame) => boolean) => {
+    for (let k = stack.length - 1; k >= 0; k--) if (match(stack[k])) return k;
+    return -1;
+  };
+  const drop = (offset: number, length: number, code: LatexDiagnosticCode, message: string) => {
+    edits.push({ at: offset, remove: length, insert: '' });
+    report(code, message, offset, true);
+  };
+
+  for (const t of tokenizeLatex(text)) {
+    switch (t.type) {
+      case 'begin':
+        stack.push({ kind: 'env', env: t.env, offset: t.offset });
+        break;
+      case 'end': {
+        const k = findFrame(f => f.kind === 'env' && f.env === t.env);
+        if (k < 0) { drop(t.offset, t.length, 'unmatched-end', `\\end{${t.env}} without \\begin{${t.env}}; removed`); break; }
+        closeAbove(k, t.offset);
+        stack.pop();
+        break;
+      }
+      case 'open':
+        stack.push({ kind: 'brace', offset: t.offset });
+        break;
+      case 'close': {
+        const k = findFrame(f => f.kind === 'brace');
+        if (k < 0) { drop(t.offset, t.length, 'unmatched-brace', 'Unmatched }; removed'); break; }
+        closeAbove(k, t.offset);
+        stack.pop();
+        break;
+      }
+      case 'math': {
+        if (t.delim === '\\)' || t.delim === '\\]') {
+          const opener = t.delim === '\\)' ? '\\(' : '\\[';
+          const k = findFrame(f => f.kind === 'math' && f.delim === opener);
+          if (k < 0) { drop(t.offset, t.length, 'unmatched-math', `${t.delim} without ${opener}; removed`); break; }
+          closeAbove(k, t.offset);
+          stack.pop();
+          break;
+        }
+        // $ and $$ both open and close. They close when the open one is on top, or only
+        // environments sit above it; with a group above ($a \text{ $b$ }$) they open.
+        const k = findFrame(f => f.kind === 'math');
+        const top = k >= 0 ? stack[k] : null;
+        if (top?.kind === 'math' && top.delim === t.delim && stack.slice(k + 1).every(f => f.kind === 'env')) {
+          closeAbove(k, t.offset);
+          stack.pop();
+        } else {
+          stack.push({ kind: 'math', delim: t.delim, offset: t.offset });
+        }
+        break;
+      }
+      case 'par': {
+        // Math cannot span a paragraph break: close it before the blank line
+        const k = findFrame(f => f.kind === 'math');
+        if (k >= 0) {
+          closeAbove(k, t.offset);
+          const f = stack.pop()!;
+          edits.push({ at: t.offset, remove: 0, insert: closerOf(f) });
+          report('unclosed-math', `${describe(f)} runs into a paragraph break; inserted ${closerOf(f)}`, f.offset, true);
+        }
+        break;
+      }
+      case 'command':
+        if (t.name === 'item' && findFrame(f => f.kind === 'env' && LIST_ENV.test(f.env)) < 0) {
+          report('item-outside-list', '\\item outside itemize/enumerate/description', t.offset, false);
+        }
+        break;
+    }
+  }
+  // Whatever is still open at the end gets closed there, innermost first
+  if (stack.length) {
+    const trailing = stack.some(f => f.kind === 'env') && !text.endsWith('\n') ? '\n' : '';
+    const at = text.length;
+    if (trailing) edits.push({ at, remove: 0, insert: trailing });
+    for (let k = stack.length - 1; k >= 0; k--) {
+      const f = stack[k];
+      edits.push({ at, remove: 0, insert: (f.kind === 'env' && k < stack.length - 1 ? '\n' : '') + closerOf(f) });
+      report(f.kind === 'env' ? 'unclosed-env' : f.kind === 'brace' ? 'unclosed-brace' : 'unclosed-math',
+        `${describe(f)} is never closed; inserted ${closerOf(f)} at the end`, f.offset, true);
+    }
+  }
+
+  // Apply edits back to front; inserts at the same offset keep their order
+  let out = text;
+  const ordered = edits.map((e, n) => ({ ...e, n })).sort((a, b) => b.at - a.at || b.n - a.n);
+  for (const e of ordered) out = out.slice(0, e.at) + e.insert + out.slice(e.at + e.remove);
+
+  diagnostics.sort((a, b) => a.line - b.line || a.col - b.col);
+  const fixed = diagnostics.filter(d => d.fixed).length;
+  return { text: out, report: { fixed, unresolved: diagnostics.length - fixed, diagnostics } };
+}
+
+// "fixed 2 issues / 1 unresolved", or "LaTeX OK"
+export function formatLatexReport(r: LatexReport): string {
+  if (!r.diagnostics.length) return 'LaTeX OK';
+  const parts: string[] = [];
+  if (r.fixed) parts.push(`fixed ${r.fixed} issue${r.fixed === 1 ? '' : 's'}`);
+  if (r.unresolved) parts.push(`${r.unresolved} unresolved`);
+  return parts.join(' / ');
+}
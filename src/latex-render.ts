@@ -0,0 +1,261 @@
+// WriteTank — Rendered preview of LaTeX answers
+// - Math ($…$, \(…\), \[…\], $$…$$, equation/align/gather/multline) goes through the
+//   bundled KaTeX; nothing is fetched
+// - Text structure (\section…\paragraph, itemize/enumerate/description, quote) and inline
+//   markup (\textbf, \emph, \texttt, …) become plain HTML
+// - \cite/\ref and friends become styled placeholders since the keys mean nothing here
+// Everything that is not KaTeX output is HTML-escaped: the input is model text.
+
+import katex from 'katex';
+
+const MATH_ENVS = 'equation|align|alignat|gather|multline|flalign|eqnarray';
+const DISPLAY_MATH = new RegExp(
+  String.raw`\\begin\{(${MATH_ENVS})(\*?)\}([\s\S]*?)\\end\{\1\2\}|\\\[([\s\S]*?)\\\]|\$\$([\s\S]*?)\$\$`, 'g');
+const INLINE_MATH = /\\\(([\s\S]*?)\\\)|(?<![\\$])\$(?!\$)((?:\\.|[^$\\])+?)\$/g;
+
+const LIST_ENVS: Record<string, 'ul' | 'ol' | 'dl'> = { itemize: 'ul', enumerate: 'ol', description: 'dl' };
+const HEADINGS: Record<string, string> = { chapter: 'h3', section: 'h3', subsection: 'h4', subsubsection: 'h5' };
+
+// Inline commands wrapping their (single) argument
+const WRAPPERS: Record<string, [string, string]> = {
+  textbf: ['<strong>', '</strong>'],
+  emph: ['<em>', '</em>'],
+  textit: ['<em>', '</em>'],
+  textsl: ['<em>', '</em>'],
+  underline: ['<u>', '</u>'],
+  texttt: ['<code>', '</code>'],
+  url: ['<code>', '</code>'],
+  textsc: ['<span class="wt-sc">', '</span>'],
+  footnote: ['<span class="wt-footnote">(', ')</span>'],
+};
+const CITE = /^(?:cite|citep|citet|citealp|citeauthor|citeyear|parencite|textcite|autocite|footcite|nocite)$/;
+const REF = /^(?:ref|eqref|autoref|cref|Cref|pageref|nameref)$/;
+const SYMBOLS: Record<string, string> = {
+  ldots: '…', dots: '…', textendash: '–', textemdash: '—', LaTeX: 'LaTeX', TeX: 'TeX',
+  quad: '\u2003', qquad: '\u2003\u2003', noindent: '', centering: '', par: '', newline: '<br>', linebreak: '<br>',
+  item: '', maketitle: '', tableofcontents: '', clearpage: '', newpage: '', hline: '', toprule: '', midrule: '', bottomrule: '',
+};
+// Dropped together with their argument
+const HIDDEN = /^(?:label|vspace|hspace|bibliographystyle|bibliography|usepackage|documentclass|includegraphics|input|include)$/;
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Strip ``` fences the model sometimes wraps answers in, and % comments (not \%)
+function normalize(src: string): string {
+  return src
+    .replace(/^```[a-z]*\s*$/gim, '')
+    .replace(/(^|[^\\])%.*$/gm, '$1')
+    .replace(/\r\n?/g, '\n');
+}
+
+function renderMath(tex: string, displayMode: boolean): string {
+  // KaTeX has no \label; the equation renders the same without it
+  return katex.renderToString(tex.replace(/\\label\{[^}]*\}/g, ''), { displayMode, throwOnError: false, strict: 'ignore', trust: false });
+}
+
+// Index just past the group closing at depth 0, starting on `open` at `i`; -1 if unbalanced
+function matchGroup(s: string, i: number, open = '{', close = '}'): number {
+  let depth = 0;
+  for (let j = i; j < s.length; j++) {
+    if (s[j] === '\\') { j++; continue; }
+    if (s[j] === open) depth++;
+    else if (s[j] === close && --depth === 0) return j + 1;
+  }
+  return -1;
+}
+
+// Read optional [..] args then one {..} arg after a command name; null if there is no {..}
+function readArg(s: string, i: number): { arg: string; end: number } | null {
+  let j = i;
+  while (s[j] === '*') j++;
+  while (true) {
+    while (s[j] === ' ') j++;
+    if (s[j] !== '[') break;
+    const e = matchGroup(s, j, '[', ']');
+    if (e < 0) return null;
+    j = e;
+  }
+  if (s[j] !== '{') return null;
+  const end = matchGroup(s, j);
+  return end < 0 ? null : { arg: s.slice(j + 1, end - 1), end };
+}
+
+function keys(arg: string): string {
+  return arg.split(',').map(k => k.trim()).filter(Boolean).join(', ');
+}
+
+// Inline markup → HTML; `math` holds pre-rendered math for the \u0000n\u0000 placeholders
+function inline(s: string, math: string[]): string {
+  let out = '';
+  let i = 0;
+  while (i < s.length) {
+    const ch = s[i];
+    if (ch === '\u0000') {
+      const end = s.indexOf('\u0000', i + 1);
+      out += math[Number(s.slice(i + 1, end))] ?? '';
+      i = end + 1;
+    } else if (ch === '\\') {
+      const name = /^[A-Za-z]+/.exec(s.slice(i + 1))?.[0];
+      if (!name) {
+        // \\ is a line break; \%, \& … are the character itself
+        const next = s[i + 1] ?? '';
+        out += next === '\\' ? '<br>' : escapeHtml(next);
+        i += 2;
+        continue;
+      }
+      const after = i + 1 + name.length;
+      const a = readArg(s, after);
+      if (CITE.test(name) && a) {
+        out += `<span class="wt-cite" title="Citation">[${escapeHtml(keys(a.arg))}]</span>`;
+        i = a.end;
+      } else if (REF.test(name) && a) {
+        out += `<span class="wt-ref" title="Reference">${name === 'eqref' ? '(' : ''}${escapeHtml(keys(a.arg))}${name === 'eqref' ? ')' : ''}</span>`;
+        i = a.end;
+      } else if (HIDDEN.test(name)) {
+        i = a ? a.end : after;
+      } else if (name === 'href' && a) {
+        // \href{url}{text}: show the text only; nothing here should be clickable or loaded
+        const b = readArg(s, a.end);
+        out += `<u>${inline(b ? b.arg : a.arg, math)}</u>`;
+        i = b ? b.end : a.end;
+      } else if (WRAPPERS[name] && a) {
+        const [open, close] = WRAPPERS[name];
+        out += open + inline(a.arg, math) + close;
+        i = a.end;
+      } else if (name in SYMBOLS) {
+        out += SYMBOLS[name];
+        i = after;
+        while (s[i] === ' ' && SYMBOLS[name] === '') i++;
+      } else if (a) {
+        // Unknown command with an argument: keep the argument's text
+        out += inline(a.arg, math);
+        i = a.end;
+      } else {
+        out += escapeHtml('\\' + name);
+        i = after;
+      }
+    } else if (ch === '{' || ch === '}') {
+      i++; // bare grouping
+    } else if (ch === '~') {
+      out += '&nbsp;';
+      i++;
+    } else if (s.startsWith('---', i)) {
+      out += '—'; i += 3;
+    } else if (s.startsWith('--', i)) {
+      out += '–'; i += 2;
+    } else if (s.startsWith('``', i)) {
+      out += '“'; i += 2;
+    } else if (s.startsWith("''", i)) {
+      out += '”'; i += 2;
+    } else {
+      out += escapeHtml(ch);
+      i++;
+    }
+  }
+  return out;
+}
+
+// Blank-line separated paragraphs, with sectioning commands as headings
+function paragraphsHtml(text: string, math: string[]): string {
+  let out = '';
+  for (const para of text.split(/\n\s*\n/)) {
+    let rest = para.trim();
+    while (rest) {
+      const m = /^\\(chapter|section|subsection|subsubsection|paragraph|subparagraph)\*?\s*/.exec(rest);
+      const a = m ? readArg(rest, m[0].length) : null;
+      if (!m || !a) break;
+      const title = inline(a.arg, math);
+      rest = rest.slice(a.end).trim();
+      if (m[1] in HEADINGS) {
+        out += `<${HEADINGS[m[1]]}>${title}</${HEADINGS[m[1]]}>`;
+      } else {
+        // \paragraph is a run-in heading
+        out += `<p><strong class="wt-paragraph">${title}</strong> ${inline(rest, math)}</p>`;
+        rest = '';
+      }
+    }
+    if (rest) out += rest.startsWith('\u0000') && rest.endsWith('\u0000') && math[Number(rest.slice(1, -1))]?.includes('katex-display')
+      ? inline(rest, math) // a lone display equation needs no <p>
+      : `<p>${inline(rest, math)}</p>`;
+  }
+  return out;
+}
+
+// Split a list body at top-level \item (nested lists keep theirs)
+function splitItems(body: string): { label?: string; text: string }[] {
+  const items: { label?: string; text: string }[] = [];
+  let depth = 0;
+  let start = -1;
+  let label: string | undefined;
+  const re = /\\(begin|end)\{[^}]*\}|\\item\b\s*/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(body))) {
+    if (m[1] === 'begin') depth++;
+    else if (m[1] === 'end') depth--;
+    else if (depth === 0) {
+      if (start >= 0) items.push({ label, text: body.slice(start, m.index) });
+      start = m.index + m[0].length;
+      label = undefined;
+      if (body[start] === '[') {
+        const e = matchGroup(body, start, '[', ']');
+        if (e > 0) { label = body.slice(start + 1, e - 1); start = e; }
+      }
+    }
+  }
+  if (start >= 0) items.push({ label, text: body.slice(start) });
+  return items;
+}
+
+// Environments (lists, quotes, anything else by its body) around paragraph text
+function blocks(text: string, math: string[]): string {
+  let out = '';
+  let rest = text;
+  while (rest) {
+    const m = /\\begin\{([A-Za-z*]+)\}/.exec(rest);
+    if (!m) { out += paragraphsHtml(rest, math); break; }
+    out += paragraphsHtml(rest.slice(0, m.index), math);
+    const env = m[1];
+    // Find the matching \end at the same nesting depth
+    const re = new RegExp(String.raw`\\(begin|end)\{${env.replace('*', '\\*')}\}`, 'g');
+    re.lastIndex = m.index;
+    let depth = 0;
+    let endAt = -1, endLen = 0;
+    let e: RegExpExecArray | null;
+    while ((e = re.exec(rest))) {
+      depth += e[1] === 'begin' ? 1 : -1;
+      if (depth === 0) { endAt = e.index; endLen = e[0].length; break; }
+    }
+    const bodyStart = m.index + m[0].length;
+    const body = endAt < 0 ? rest.slice(bodyStart) : rest.slice(bodyStart, endAt);
+    rest = endAt < 0 ? '' : rest.slice(endAt + endLen);
+    const list = LIST_ENVS[env];
+    if (list === 'dl') {
+      out += '<dl>' + splitItems(body).map(it => `<dt>${inline(it.label ?? '', math)}</dt><dd>${blocks(it.text, math)}</dd>`).join('') + '</dl>';
+    } else if (list) {
+      out += `<${list}>` + splitItems(body).map(it => `<li>${blocks(it.text, math)}</li>`).join('') + `</${list}>`;
+    } else if (/^(?:quote|quotation|abstract)$/.test(env)) {
+      out += `<blockquote>${blocks(body, math)}</blockquote>`;
+    } else if (env === 'document') {
+      out += blocks(body, math);
+    } else {
+      out += `<div class="wt-env" data-env="${escapeHtml(env)}">${blocks(body, math)}</div>`;
+    }
+  }
+  return out;
+}
+
+// LaTeX source → preview HTML (safe to assign to innerHTML)
+export function latexToHtml(src: string): string {
+  const math: string[] = [];
+  const hold = (html: string) => `\u0000${math.push(html) - 1}\u0000`;
+  const text = normalize(src)
+    .replace(/\u0000/g, '')
+    .replace(DISPLAY_MATH, (_m, env: string | undefined, star: string, envBody: string, bracket?: string, dollars?: string) => {
+      if (env) return hold(renderMath(`\\begin{${env === 'eqnarray' ? 'align' : env}${star}}${envBody}\\end{${env === 'eqnarray' ? 'align' : env}${star}}`, true));
+      return hold(renderMath(bracket ?? dollars ?? '', true));
+    })
+    .replace(INLINE_MATH, (_m, paren?: string, dollar?: string) => hold(renderMath(paren ?? dollar ?? '', false)));
+  return blocks(text, math);
+}
@@ -0,0 +1,147 @@
+// WriteTank — Extension message protocol (shared by background, content script and popup)
+// - All traffic runs over long-lived chrome.runtime ports named PORT_NAME (see rpc.ts)
+// - Either end can call a method on the other; the callee answers with events tagged
+//   by the request id: start → delta* → done | error
+// - A port opened by a content script is bound to its tab, so answers and streamed
+//   deltas only ever reach the panel that asked
+// - The background can also open a stream nobody asked for (alarm-driven coaching),
+//   using the same events; see PushStreams
+
+import type { Settings } from './settings.ts';
+import type { BudgetReport } from './budget.ts';
+import type { ModelDetails, ModelInfo, PullProgress } from './providers.ts';
+import type { DocRef, ProjectFile } from './project.ts';
+import type { RetrievedSource } from './retrieval.ts';
+import type { QaThread, QaThreadInfo } from './threads.ts';
+import type { JobKind } from './jobs.ts';
+import type { LatexReport } from './latex-check.ts';
+import type { CitationReport } from './bibtex.ts';
+import type { RefCheckResult } from './refcheck.ts';
+import type { OutlineEntry } from './outline.ts';
+import type { TermReport } from './terminology.ts';
+import type { CoachItemStatus, CoachRun } from './coach-history.ts';
+import type { AnchorRange, CoachReport } from './coach-findings.ts';
+
+export const PORT_NAME = 'writetank:rpc';
+
+// --- Method specs: what a method takes, what it resolves to, and what it streams meanwhile
+export type MethodSpec = { params: unknown; result: unknown; delta: unknown };
+export type MethodMap = Record<string, MethodSpec>;
+
+// --- Payloads
+export type QaResult = {
+  text: string;
+  sources: RetrievedSource[];
+  threadId?: string; // unset when nothing was answered (stopped before the first token)
+  stopped: boolean;
+  check?: LatexReport; // what the LaTeX validator fixed or could not fix in `text`
+  citations?: CitationReport; // set once the project has .bib entries
+  budget?: BudgetReport;      // what went into the prompt, and what was trimmed or dropped
+};
+
+export type ActionResult = { text: string; stopped: boolean; check?: LatexReport };
+
+export type CoachChunkInfo = { title: string; startLine: number };
+export type CoachProgressState = 'running' | 'done' | 'error' | 'stopped';
+
+// Everything a coach run streams: status lines, the chunk plan, per-chunk progress
+export type CoachDelta =
+  | { kind: 'status'; text: string }
+  | { kind: 'plan'; chunks: CoachChunkInfo[]; skipped: number }
+  | { kind: 'progress'; index: number; state: CoachProgressState };
+
+// `text` is the report as LaTeX; `report` holds the structured findings it was rendered from;
+// `region` is where the coached text was in the file, when known (anchors are looked up there)
+export type CoachResult = { text: string; stopped: boolean; updatedAt: number; report?: CoachReport; region?: AnchorRange; check?: LatexReport; citations?: CitationReport };
+
+export type ProjectFileInfo = { path: string; chars: number; updatedAt: number; source: ProjectFile['source'] };
+
+// --- Served by the background (called from content script and popup)
+export type BackgroundMethods = {
+  'settings:get': { params: void; result: Settings; delta: never };
+  'settings:set': { params: { patch: Partial<Settings> }; result: void; delta: never };
+  'qa': {
+    params: { question: string; text: string; doc?: DocRef; threadId?: string | null };
+    result: QaResult;
+    delta: string; // answer text as it streams
+  };
+  // A user-defined prompt action (settings.promptActions); `line` is where the selection starts in `text`
+  'action:run': {
+    params: { actionId: string; selection: string; text: string; line: number; doc?: DocRef };
+    result: ActionResult;
+    delta: string;
+  };
+  'threads:list': { params: { doc: DocRef }; result: QaThreadInfo[]; delta: never };
+  'threads:get': { params: { doc: DocRef; threadId: string }; result: QaThread | null; delta: never };
+  'threads:rename': { params: { doc: DocRef; threadId: string; title: string }; result: void; delta: never };
+  'threads:delete': { params: { doc: DocRef; threadId: string }; result: void; delta: never };
+  // Coach the given text (`coach:expand`: the detailed whole-document pass); `from`: its offset in the file
+  'coach': { params: { text: string; doc?: DocRef; from?: number }; result: CoachResult; delta: CoachDelta };
+  'coach:expand': { params: { text: string; doc?: DocRef; from?: number }; result: CoachResult; delta: CoachDelta };
+  // Edit-driven Auto-coach: a changed paragraph; null when skipped (paused, other mode, already coached)
+  'coach:edit': { params: { text: string; doc?: DocRef; from?: number }; result: CoachResult | null; delta: CoachDelta };
+  // "Run now": coach what is visible in the caller's tab (from the popup: the active Overleaf tab)
+  'coach:run': { params: void; result: CoachResult; delta: CoachDelta };
+  // Finished coach runs of a document, newest first; marking returns the updated list
+  'coach:history': { params: { doc?: DocRef }; result: CoachRun[]; delta: never };
+  'coach:mark': { params: { doc?: DocRef; runId: string; itemId: string; status: CoachItemStatus }; result: CoachRun[]; delta: never };
+  // From a panel: that tab's jobs only. From the popup: all jobs.
+  'jobs:cancel': { params: { kinds?: JobKind[] }; result: { cancelled: number }; delta: never };
+  'project:capture': {
+    params: { projectId: string; source: ProjectFile['source']; files: { path: string; text: string }[] };
+    result: { changed: number; total: number };
+    delta: never;
+  };
+  'project:info': { params: { projectId: string }; result: ProjectFileInfo[]; delta: never };
+  // Label/reference integrity over `text` (the open file) plus the project's other captured .tex files
+  'checks:refs': { params: { text: string; doc?: DocRef }; result: RefCheckResult & { path: string }; delta: never };
+  // Term variants across the open file and the project's other captured .tex files
+  'checks:terms': { params: { text: string; doc?: DocRef }; result: TermReport & { path: string }; delta: never };
+  // Choose the canonical form of a cluster for the project's style sheet (null clears it)
+  'terms:set': { params: { doc?: DocRef; clusterId: string; canonical: string | null; variants: string[] }; result: void; delta: never };
+  'outline:get': { params: { text: string; doc?: DocRef }; result: OutlineEntry[]; delta: never };
+  // Summarize one section of `text` (the open file) and return the refreshed outline
+  'outline:summarize': { params: { text: string; sectionId: string; doc?: DocRef }; result: OutlineEntry[]; delta: never };
+  'ping-endpoint': { params: void; result: boolean; delta: never };
+  // Models on the endpoint; details (size, quantization, context) where the provider reports them
+  'models:list': { params: void; result: ModelInfo[]; delta: never };
+  'models:show': { params: { name: string }; result: ModelDetails; delta: never };
+  // Download a model (Ollama); resolves when done, a second call for the same name follows the running pull
+  'models:pull': { params: { name: string }; result: void; delta: PullProgress };
+  'test-model': { params: void; result: string; delta: never };
+};
+
+// Context-menu entries and keyboard shortcuts, forwarded by the background to the tab's panel
+export type PanelCommand =
+  | { kind: 'ask' }                                 // open Q&A on the selection, focus the question
+  | { kind: 'coach-selection'; selection: string }  // coach just the selected text
+  | { kind: 'run-coach' }                           // same as "Run now"
+  | { kind: 'toggle-panel' }
+  | { kind: 'apply' }                               // preview the answer into the editor; again to confirm
+  | { kind: 'action'; actionId: string };           // a prompt action on the selection
+
+// --- Served by the content script (called from the background)
+export type ContentMethods = {
+  // `from`: the text's offset in the file (known when read from the editor state)
+  'grabText': { params: { mode: 'visible' | 'all' }; result: { text: string; doc: DocRef; from?: number }; delta: never };
+  'command': { params: PanelCommand; result: void; delta: never };
+};
+
+// --- Streams the background opens on a tab without a request
+export type PushStreams = {
+  'coach': { params: void; result: CoachResult; delta: CoachDelta };
+  'notice': { params: void; result: string; delta: never }; // one-line status, e.g. "Summary cached"
+};
+
+// --- Wire format
+export type RpcRequest = { type: 'request'; id: string; method: string; params: unknown };
+export type RpcEvent =
+  | { type: 'start'; id: string; method: string }
+  | { type: 'delta'; id: string; delta: unknown }
+  | { type: 'done'; id: string; result: unknown }
+  | { type: 'error'; id: string; error: string };
+export type RpcMessage = RpcRequest | RpcEvent;
+
+// Sent with chrome.tabs.sendMessage when the background needs a tab whose port is gone
+// (the service worker was restarted); the content script reconnects.
+export type RpcWake = { type: 'writetank:connect' };
@@ -0,0 +1,167 @@
+// WriteTank — Options page: prompt action editor
+// - Edit, add and remove actions (button label + prompt template)
+// - Export the list as a JSON pack; import a pack (same id replaces, others are appended)
+
+import {
+  DEFAULT_PROMPT_ACTIONS, PROMPT_VARIABLES, actionIdFromLabel, exportPack, mergeActions, parsePack, unknownVariables,
+  type PromptAction,
+} from './prompts.ts';
+import { connectBackground } from './rpc.ts';
+
+const bg = connectBackground();
+
+// Ids of the cards currently on the page, in order (new cards get theirs on save)
+let cardIds: (string | null)[] = [];
+
+function el<T extends HTMLElement>(sel: string): T {
+  const found = document.querySelector(sel) as T | null;
+  if (!found) throw new Error(`Missing element: ${sel}`);
+  return found;
+}
+
+function setStatus(text: string, cls?: 'ok' | 'bad') {
+  const status = el<HTMLSpanElement>('#actions-status');
+  status.textContent = text;
+  status.className = `status-indicator ${cls ?? ''}`;
+  if (cls === 'ok') setTimeout(() => { if (status.textContent === text) status.textContent = ''; }, 2000);
+}
+
+function renderVariables() {
+  const host = el<HTMLSpanElement>('#action-vars');
+  host.innerHTML = '';
+  Object.entries(PROMPT_VARIABLES).forEach(([name, help], i) => {
+    if (i) host.append(', ');
+    const code = document.createElement('code');
+    code.textContent = `{{${name}}}`;
+    code.title = help;
+    host.appendChild(code);
+  });
+}
+
+function warnUnknown(card: HTMLElement) {
+  const template = card.querySelector('textarea')!.value;
+  const warning = card.querySelector('.action-warning') as HTMLElement;
+  const unknown = unknownVariables(template);
+  warning.textContent = unknown.length ? `Unknown variable${unknown.length === 1 ? '' : 's'}: ${unknown.map(v => `{{${v}}}`).join(', ')}` : '';
+}
+
+function renderActions(actions: PromptAction[]) {
+  const list = el<HTMLDivElement>('#actions-list');
+  list.innerHTML = '';
+  cardIds = [];
+  for (const action of actions) addCard(action);
+  if (!actions.length) setStatus('No actions; the panel shows no action buttons');
+}
+
+function addCard(action?: PromptAction) {
+  const list = el<HTMLDivElement>('#actions-list');
+  const index = cardIds.length;
+  cardIds.push(action?.id ?? null);
+  const card = document.createElement('div');
+  card.className = 'action-card';
+  card.dataset.index = String(index);
+
+  const head = document.createElement('div');
+  head.className = 'action-head';
+  const label = document.createElement('input');
+  label.type = 'text';
+  label.placeholder = 'Button label, e.g. Tighten to 80 words';
+  label.maxLength = 60;
+  label.value = action?.label ?? '';
+  const remove = document.createElement('button');
+  remove.textContent = 'Remove';
+  remove.addEventListener('click', () => { card.remove(); });
+  head.append(label, remove);
+
+  const template = document.createElement('textarea');
+  template.placeholder = 'Prompt template, e.g. Rewrite in at most 80 words:\n\n{{selection}}';
+  template.value = action?.template ?? '';
+  template.addEventListener('input', () => warnUnknown(card));
+
+  const warning = document.createElement('div');
+  warning.className = 'action-warning';
+  card.append(head, template, warning);
+  list.appendChild(card);
+  warnUnknown(card);
+  if (!action) label.focus();
+}
+
+// Actions as currently edited; throws with a message naming the first invalid card
+function collectActions(): PromptAction[] {
+  const used = new Set<string>();
+  const actions: PromptAction[] = [];
+  for (const card of Array.from(document.querySelectorAll<HTMLElement>('#actions-list .action-card'))) {
+    const label = card.querySelector('input')!.value.trim();
+    const template = card.querySelector('textarea')!.value;
+    if (!label && !template.trim()) continue; // an untouched new card
+    if (!label || !template.trim()) throw new Error(`"${label || 'Untitled'}" needs both a label and a template`);
+    let id = cardIds[Number(card.dataset.index)] ?? actionIdFromLabel(label);
+    for (let n = 2; used.has(id); n++) id = `${actionIdFromLabel(label)}-${n}`;
+    used.add(id);
+    actions.push({ id, label, template });
+  }
+  return actions;
+}
+
+async function saveActions(actions: PromptAction[], message = 'Saved') {
+  await bg.call('settings:set', { patch: { promptActions: actions } });
+  renderActions(actions);
+  setStatus(message, 'ok');
+}
+
+function downloadPack(actions: PromptAction[]) {
+  const name = window.prompt('Pack name', 'WriteTank prompts');
+  if (name === null) return;
+  const blob = new Blob([exportPack(name.trim() || 'WriteTank prompts', actions)], { type: 'application/json' });
+  const a = document.createElement('a');
+  a.href = URL.createObjectURL(blob);
+  a.download = `${actionIdFromLabel(name) || 'writetank-prompts'}.json`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+}
+
+function wireActions() {
+  el<HTMLButtonElement>('#action-add').addEventListener('click', () => addCard());
+  el<HTMLButtonElement>('#actions-save').addEventListener('click', async () => {
+    try {
+      await saveActions(collectActions());
+    } catch (e: any) {
+      setStatus(e?.message || 'Save failed', 'bad');
+    }
+  });
+  el<HTMLButtonElement>('#actions-export').addEventListener('click', () => {
+    try {
+      downloadPack(collectActions());
+    } catch (e: any) {
+      setStatus(e?.message || 'Export failed', 'bad');
+    }
+  });
+  const file = el<HTMLInputElement>('#actions-file');
+  el<HTMLButtonElement>('#actions-import').addEventListener('click', () => file.click());
+  file.addEventListener('change', async () => {
+    const f = file.files?.[0];
+    file.value = '';
+    if (!f) return;
+    try {
+      const pack = parsePack(await f.text());
+      await saveActions(mergeActions(collectActions(), pack.actions), `Imported ${pack.actions.length} from "${pack.name}"`);
+    } catch (e: any) {
+      setStatus(`Import failed: ${e?.message || e}`, 'bad');
+    }
+  });
+  el<HTMLButtonElement>('#actions-reset').addEventListener('click', async () => {
+    if (!window.confirm('Replace all actions with the built-in defaults?')) return;
+    await saveActions(DEFAULT_PROMPT_ACTIONS, 'Defaults restored');
+  });
+}
+
+document.addEventListener('DOMContentLoaded', async () => {
+  try {
+    renderVariables();
+    wireActions();
+    const settings = await bg.call('settings:get', undefined);
+    renderActions(settings.promptActions ?? DEFAULT_PROMPT_ACTIONS);
+  } catch {
+    setStatus('Could not load actions', 'bad');
+  }
+});
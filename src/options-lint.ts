@@ -0,0 +1,88 @@
+// WriteTank — Options page: style check rules
+// - Turn rules on and off, set the sentence-length and readability limits
+// - Known acronyms are never flagged; extra hedge words join the built-in list
+
+import { DEFAULT_STYLE_LINT, STYLE_RULES, type StyleLintConfig, type StyleRuleId } from './style-lint.ts';
+import { connectBackground } from './rpc.ts';
+
+const bg = connectBackground();
+
+function el<T extends HTMLElement>(sel: string): T {
+  const found = document.querySelector(sel) as T | null;
+  if (!found) throw new Error(`Missing element: ${sel}`);
+  return found;
+}
+
+function setStatus(text: string, cls?: 'ok' | 'bad') {
+  const status = el<HTMLSpanElement>('#lint-status');
+  status.textContent = text;
+  status.className = `status-indicator ${cls ?? ''}`;
+  if (cls === 'ok') setTimeout(() => { if (status.textContent === text) status.textContent = ''; }, 2000);
+}
+
+function list(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+function clamp(value: string, min: number, max: number, fallback: number): number {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+}
+
+function renderConfig(config: StyleLintConfig) {
+  const host = el<HTMLDivElement>('#lint-rules');
+  host.innerHTML = '';
+  for (const [rule, label] of Object.entries(STYLE_RULES) as [StyleRuleId, string][]) {
+    const row = document.createElement('div');
+    row.className = 'checkbox-group';
+    const box = document.createElement('input');
+    box.type = 'checkbox';
+    box.id = `lint-rule-${rule}`;
+    box.dataset.rule = rule;
+    box.checked = config.rules[rule] !== false;
+    const text = document.createElement('label');
+    text.htmlFor = box.id;
+    text.textContent = label;
+    row.append(box, text);
+    host.appendChild(row);
+  }
+  el<HTMLInputElement>('#lint-max-words').value = String(config.maxSentenceWords);
+  el<HTMLInputElement>('#lint-max-grade').value = String(config.maxParagraphGrade);
+  el<HTMLInputElement>('#lint-acronyms').value = config.knownAcronyms.join(', ');
+  el<HTMLInputElement>('#lint-hedges').value = config.extraHedges.join(', ');
+}
+
+function collectConfig(): StyleLintConfig {
+  const rules = { ...DEFAULT_STYLE_LINT.rules };
+  document.querySelectorAll<HTMLInputElement>('#lint-rules input[data-rule]').forEach(box => {
+    rules[box.dataset.rule as StyleRuleId] = box.checked;
+  });
+  return {
+    rules,
+    maxSentenceWords: clamp(el<HTMLInputElement>('#lint-max-words').value, 10, 100, DEFAULT_STYLE_LINT.maxSentenceWords),
+    maxParagraphGrade: clamp(el<HTMLInputElement>('#lint-max-grade').value, 6, 30, DEFAULT_STYLE_LINT.maxParagraphGrade),
+    knownAcronyms: list(el<HTMLInputElement>('#lint-acronyms').value),
+    extraHedges: list(el<HTMLInputElement>('#lint-hedges').value),
+  };
+}
+
+async function saveConfig(config: StyleLintConfig, message = 'Saved') {
+  await bg.call('settings:set', { patch: { styleLint: config } });
+  renderConfig(config);
+  setStatus(message, 'ok');
+}
+
+document.addEventListener('DOMContentLoaded', async () => {
+  try {
+    el<HTMLButtonElement>('#lint-save').addEventListener('click', () => {
+      saveConfig(collectConfig()).catch(() => setStatus('Save failed', 'bad'));
+    });
+    el<HTMLButtonElement>('#lint-reset').addEventListener('click', () => {
+      saveConfig(DEFAULT_STYLE_LINT, 'Defaults restored').catch(() => setStatus('Save failed', 'bad'));
+    });
+    const settings = await bg.call('settings:get', undefined);
+    renderConfig({ ...DEFAULT_STYLE_LINT, ...settings.styleLint });
+  } catch {
+    setStatus('Could not load style checks', 'bad');
+  }
+});
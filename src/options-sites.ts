@@ -0,0 +1,115 @@
+// WriteTank — Options page: sites
+// - Add an origin (self-hosted Overleaf, another browser LaTeX editor) and pick its editor adapter
+// - Adding asks for the site's host permission; the background registers the panel once granted
+// - Removing a site gives its permission back
+
+import { BUILTIN_SITE, EDITOR_ADAPTERS, normalizeOrigin, originPattern, type SiteConfig } from './sites.ts';
+import type { EditorAdapter } from './bridge-protocol.ts';
+import { connectBackground } from './rpc.ts';
+
+const bg = connectBackground();
+
+let sites: SiteConfig[] = [];
+
+function el<T extends HTMLElement>(sel: string): T {
+  const found = document.querySelector(sel) as T | null;
+  if (!found) throw new Error(`Missing element: ${sel}`);
+  return found;
+}
+
+function setStatus(text: string, cls?: 'ok' | 'bad') {
+  const status = el<HTMLSpanElement>('#sites-status');
+  status.textContent = text;
+  status.className = `status-indicator ${cls ?? ''}`;
+  if (cls === 'ok') setTimeout(() => { if (status.textContent === text) status.textContent = ''; }, 2000);
+}
+
+function fillAdapters(select: HTMLSelectElement, value: EditorAdapter = 'auto') {
+  for (const [adapter, label] of Object.entries(EDITOR_ADAPTERS)) select.add(new Option(label, adapter));
+  select.value = value;
+}
+
+async function renderSites() {
+  const list = el<HTMLDivElement>('#sites-list');
+  list.innerHTML = '';
+  const builtin = document.createElement('div');
+  builtin.className = 'site-row';
+  const name = document.createElement('span');
+  name.textContent = BUILTIN_SITE.origin;
+  const note = document.createElement('span');
+  note.className = 'site-note';
+  note.textContent = 'built in';
+  builtin.append(name, note);
+  list.appendChild(builtin);
+
+  for (const site of sites) {
+    const row = document.createElement('div');
+    row.className = 'site-row';
+    const origin = document.createElement('span');
+    origin.textContent = site.origin;
+    const adapter = document.createElement('select');
+    fillAdapters(adapter, site.adapter);
+    adapter.title = 'Editor adapter (takes effect when the site is reloaded)';
+    adapter.addEventListener('change', () => {
+      saveSites(sites.map(s => (s.origin === site.origin ? { ...s, adapter: adapter.value as EditorAdapter } : s)))
+        .catch(() => setStatus('Save failed', 'bad'));
+    });
+    const remove = document.createElement('button');
+    remove.textContent = 'Remove';
+    remove.addEventListener('click', () => removeSite(site).catch(() => setStatus('Could not remove the site', 'bad')));
+    row.append(origin, adapter, remove);
+    // Permission revoked in chrome://extensions: the panel does not run there until it is granted again
+    if (!await chrome.permissions.contains({ origins: [originPattern(site.origin)] })) {
+      const grant = document.createElement('button');
+      grant.textContent = 'Grant access';
+      grant.addEventListener('click', async () => {
+        if (await chrome.permissions.request({ origins: [originPattern(site.origin)] })) renderSites();
+      });
+      row.insertBefore(grant, remove);
+    }
+    list.appendChild(row);
+  }
+}
+
+async function saveSites(next: SiteConfig[], message = 'Saved') {
+  await bg.call('settings:set', { patch: { sites: next } });
+  sites = next;
+  await renderSites();
+  setStatus(message, 'ok');
+}
+
+async function addSite() {
+  const input = el<HTMLInputElement>('#site-origin');
+  const origin = normalizeOrigin(input.value);
+  if (!origin) { setStatus('Enter a site such as https://latex.example.edu', 'bad'); return; }
+  if (origin === BUILTIN_SITE.origin || sites.some(s => s.origin === origin)) { setStatus('That site is already listed', 'bad'); return; }
+  // Asked first, while the click still counts as a user gesture
+  const granted = await chrome.permissions.request({ origins: [originPattern(origin)] });
+  if (!granted) { setStatus('Access to the site was not granted', 'bad'); return; }
+  const adapter = el<HTMLSelectElement>('#site-adapter').value as EditorAdapter;
+  await saveSites([...sites, { origin, adapter }], `Added; reload ${origin} to see the panel`);
+  input.value = '';
+}
+
+async function removeSite(site: SiteConfig) {
+  const pattern = originPattern(site.origin);
+  const next = sites.filter(s => s.origin !== site.origin);
+  // Another entry on the same host (different port) still needs the permission; the manifest's
+  // own hosts (http://localhost) cannot be removed
+  if (!next.some(s => originPattern(s.origin) === pattern)) await chrome.permissions.remove({ origins: [pattern] }).catch(() => false);
+  await saveSites(next, 'Removed');
+}
+
+document.addEventListener('DOMContentLoaded', async () => {
+  try {
+    fillAdapters(el<HTMLSelectElement>('#site-adapter'));
+    el<HTMLButtonElement>('#site-add').addEventListener('click', () => {
+      addSite().catch(() => setStatus('Could not add the site', 'bad'));
+    });
+    const settings = await bg.call('settings:get', undefined);
+    sites = settings.sites ?? [];
+    await renderSites();
+  } catch {
+    setStatus('Could not load sites', 'bad');
+  }
+});
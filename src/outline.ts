@@ -0,0 +1,86 @@
+// WriteTank — Document outline (\chapter / \section / \subsection)
+// - Parses headings into sections with line ranges, word counts and a content hash
+// - Section ids come from the heading title (plus an occurrence number), so they survive
+//   edits elsewhere in the file; the hash tells when a cached summary has gone stale
+// Pure helpers shared by the background and the content script.
+
+import { simpleHash } from './project.ts';
+
+export type OutlineLevel = 0 | 1 | 2; // chapter, section, subsection
+
+export type OutlineSection = {
+  id: string;        // e.g. "section:related-work" or "section:results:2" for a repeated title
+  level: OutlineLevel;
+  title: string;
+  startLine: number; // 1-based, the heading line
+  endLine: number;   // last line before the next heading of the same or a higher level
+  words: number;
+  hash: string;      // of the section's text, whitespace-normalized
+};
+
+// Cached per section; summaries themselves live in the summary cache (background)
+export type SectionState = { coachedAt?: number };
+
+export type OutlineEntry = OutlineSection & {
+  summary?: string;
+  summarizedAt?: number;
+  stale: boolean;    // a summary exists but the section changed since
+  coachedAt?: number;
+};
+
+const LEVELS: Record<string, OutlineLevel> = { chapter: 0, section: 1, subsection: 2 };
+const HEADING = /^\s*\\(chapter|section|subsection)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/;
+
+export function outlineStateKey(projectId: string) {
+  return `wt:outline:${projectId}`;
+}
+
+// Words of prose: comments, commands and math markup do not count
+export function countWords(latex: string): number {
+  const prose = latex
+    .replace(/(^|[^\\])%.*$/gm, '$1')
+    .replace(/\\begin\{(?:equation|align|gather|multline)\*?\}[\s\S]*?\\end\{(?:equation|align|gather|multline)\*?\}/g, ' ')
+    .replace(/\$\$[\s\S]*?\$\$|\\\[[\s\S]*?\\\]|\$[^$]*\$/g, ' ')
+    .replace(/\\[A-Za-z@]+\*?/g, ' ');
+  return (prose.match(/[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g) ?? []).length;
+}
+
+function slug(title: string): string {
+  return title.toLowerCase().replace(/\\[a-z]+/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 48) || 'untitled';
+}
+
+export function parseOutline(text: string): OutlineSection[] {
+  const lines = text.split('\n');
+  const heads: { level: OutlineLevel; title: string; line: number }[] = [];
+  lines.forEach((l, i) => {
+    if (/^\s*%/.test(l)) return;
+    const m = l.match(HEADING);
+    if (m) heads.push({ level: LEVELS[m[1]], title: m[2].trim() || '(untitled)', line: i + 1 });
+  });
+  // The document body ends at \end{document}, not at the last line
+  const endDoc = lines.findIndex(l => /\\end\{document\}/.test(l));
+  const lastLine = endDoc >= 0 ? endDoc : lines.length;
+  const seen = new Map<string, number>();
+  return heads.map((h, k) => {
+    const next = heads.slice(k + 1).find(o => o.level <= h.level);
+    const endLine = Math.max(h.line, (next ? next.line : lastLine + 1) - 1);
+    const body = lines.slice(h.line - 1, endLine).join('\n');
+    const base = `${['chapter', 'section', 'subsection'][h.level]}:${slug(h.title)}`;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    return {
+      id: n > 1 ? `${base}:${n}` : base,
+      level: h.level,
+      title: h.title,
+      startLine: h.line,
+      endLine,
+      words: countWords(lines.slice(h.line, endLine).join('\n')),
+      hash: simpleHash(body.replace(/\s+/g, ' ').trim()),
+    };
+  });
+}
+
+// The text of one section (heading included)
+export function sectionText(text: string, section: Pick<OutlineSection, 'startLine' | 'endLine'>): string {
+  return text.split('\n').slice(section.startLine - 1, section.endLine).join('\n');
+}
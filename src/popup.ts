@@ -1,11 +1,13 @@
 // WriteTank — Popup: quick controls & settings
+// - Model fields suggest the endpoint's models; the focused one shows its size, quantization and
+//   context length, and a missing model can be pulled (Ollama) with a progress bar
 
-type Settings = {
-    endpoint: string;
-    model: string;
-    intervalMin: number;
-    paused: boolean;
-  };
+import type { ContextPreference } from './budget.ts';
+import { DEFAULT_ENDPOINTS, type CoachMode, type ModelTask, type ProviderType, type Settings, type TaskModels } from './settings.ts';
+import type { ModelInfo, PullProgress } from './providers.ts';
+import { connectBackground } from './rpc.ts';
+
+  const bg = connectBackground();
   
   function qs<T extends HTMLElement>(sel: string) {
     const el = document.querySelector(sel) as T | null;
@@ -13,8 +15,8 @@ type Settings = {
     return el;
   }
   
-  function normalizeEndpoint(v: string) {
-    const s = (v || '').trim() || 'http://localhost:11434';
+  function normalizeEndpoint(v: string, provider: ProviderType) {
+    const s = (v || '').trim() || DEFAULT_ENDPOINTS[provider];
     return s.replace(/\/+$/, ''); // remove trailing slashes
   }
   
@@ -26,24 +28,162 @@ type Settings = {
     if (cls) setTimeout(() => setStatus('Idle'), 1200);
   }
   
+  // --- Models on the endpoint
+  const TASK_FIELDS: Record<ModelTask, string> = {
+    qa: '#qaModel',
+    coach: '#coachModel',
+    expand: '#expandModel',
+    summarize: '#summarizeModel',
+  };
+
+  let installed: ModelInfo[] | null = null; // null: list unavailable (offline, or not loaded yet)
+  let modelProvider: ProviderType = 'ollama'; // the saved provider, which the list comes from
+  let activeModelEl: HTMLInputElement | null = null;
+  let pulling = false;
+
+  function formatSize(bytes?: number) {
+    if (!bytes) return '';
+    return bytes >= 1e9 ? `${(bytes / 1e9).toFixed(1)} GB` : `${Math.round(bytes / 1e6)} MB`;
+  }
+
+  function describeModel(m: Partial<ModelInfo> & { contextLength?: number }) {
+    return [
+      formatSize(m.size),
+      m.parameterSize,
+      m.quantization,
+      m.contextLength ? `${Math.round(m.contextLength / 1024)}k context` : '',
+    ].filter(Boolean).join(' · ');
+  }
+
+  function findInstalled(name: string) {
+    // Ollama lists "llama3" as "llama3:latest"
+    return installed?.find(m => m.name === name || m.name === `${name}:latest`);
+  }
+
+  async function loadModels() {
+    const list = qs<HTMLDataListElement>('#model-list');
+    try {
+      installed = await bg.call('models:list', undefined);
+    } catch (e: any) {
+      installed = null;
+      list.innerHTML = '';
+      qs<HTMLDivElement>('#model-info').textContent = `Model list unavailable: ${e?.message || e}`;
+      return;
+    }
+    list.innerHTML = '';
+    for (const m of installed) {
+      const option = document.createElement('option');
+      option.value = m.name;
+      option.label = describeModel(m);
+      list.appendChild(option);
+    }
+    if (activeModelEl) showModelInfo(activeModelEl);
+  }
+
+  // The model a field stands for: per-task fields fall back to the main model
+  function effectiveModel(el: HTMLInputElement) {
+    const own = el.value.trim();
+    if (own) return own;
+    if (Object.values(TASK_FIELDS).includes(`#${el.id}`)) return qs<HTMLInputElement>('#model').value.trim() || 'gpt-oss:20b';
+    return el.placeholder;
+  }
+
+  async function showModelInfo(el: HTMLInputElement) {
+    const info = qs<HTMLDivElement>('#model-info');
+    const pullRow = qs<HTMLDivElement>('#model-pull-row');
+    const name = effectiveModel(el);
+    if (pulling) return; // the progress line owns the info text until the pull ends
+    pullRow.hidden = true;
+    if (!name || !installed) return;
+    const listed = findInstalled(name);
+    if (!listed) {
+      info.textContent = `${name} is not on the endpoint`;
+      pullRow.hidden = modelProvider !== 'ollama';
+      return;
+    }
+    info.textContent = `${listed.name}${describeModel(listed) ? ` — ${describeModel(listed)}` : ''}`;
+    if (modelProvider !== 'ollama') return;
+    try {
+      const details = await bg.call('models:show', { name: listed.name });
+      if (effectiveModel(el) !== name) return; // the field changed while we waited
+      info.textContent = `${listed.name} — ${describeModel({ ...details, size: listed.size })}`;
+    } catch {
+      // keep the list's summary
+    }
+  }
+
+  function showPullProgress(name: string, p: PullProgress) {
+    const bar = qs<HTMLProgressElement>('#model-pull-progress');
+    const info = qs<HTMLDivElement>('#model-info');
+    if (p.total) {
+      bar.value = (p.completed ?? 0) / p.total;
+      info.textContent = `Pulling ${name}: ${p.status} ${Math.floor(bar.value * 100)}% of ${formatSize(p.total)}`;
+    } else {
+      bar.removeAttribute('value'); // indeterminate
+      info.textContent = `Pulling ${name}: ${p.status}`;
+    }
+  }
+
+  async function pullActiveModel() {
+    if (!activeModelEl || pulling) return;
+    const name = effectiveModel(activeModelEl);
+    const button = qs<HTMLButtonElement>('#model-pull');
+    pulling = true;
+    button.disabled = true;
+    try {
+      await bg.call('models:pull', { name }, p => showPullProgress(name, p));
+      setStatus(`Pulled ${name}`, 'ok');
+    } catch (e: any) {
+      qs<HTMLDivElement>('#model-info').textContent = `Pull failed: ${e?.message || e}`;
+      pulling = false;
+      button.disabled = false;
+      return;
+    }
+    pulling = false;
+    button.disabled = false;
+    await loadModels();
+  }
+
+  function wireModelFields() {
+    const fields = ['#model', '#embedModel', ...Object.values(TASK_FIELDS)].map(sel => qs<HTMLInputElement>(sel));
+    for (const el of fields) {
+      el.addEventListener('focus', () => { activeModelEl = el; showModelInfo(el); });
+      el.addEventListener('change', () => showModelInfo(el));
+    }
+    qs<HTMLButtonElement>('#model-pull').addEventListener('click', pullActiveModel);
+  }
+
   async function getSettings(): Promise<Settings> {
-    return new Promise((resolve) => {
-      chrome.runtime.sendMessage({ cmd: 'settings:get' }, (s: Settings) => resolve(s));
-    });
+    return bg.call('settings:get', undefined);
   }
   
   async function setSettings(patch: Partial<Settings>) {
-    return new Promise((resolve) => {
-      chrome.runtime.sendMessage({ cmd: 'settings:set', patch }, () => resolve(null));
-    });
+    return bg.call('settings:set', { patch });
   }
   
   function wireEvents() {
     const pausedEl = qs<HTMLInputElement>('#paused');
     const intervalEl = qs<HTMLInputElement>('#interval');
+    const coachModeEl = qs<HTMLSelectElement>('#coachMode');
     const modelEl = qs<HTMLInputElement>('#model');
+    const embedModelEl = qs<HTMLInputElement>('#embedModel');
     const endpointEl = qs<HTMLInputElement>('#endpoint');
+    const providerEl = qs<HTMLSelectElement>('#provider');
+    const apiKeyEl = qs<HTMLInputElement>('#apiKey');
+    wireModelFields();
+  
+    providerEl.addEventListener('change', () => {
+      const provider = providerEl.value as ProviderType;
+      endpointEl.placeholder = DEFAULT_ENDPOINTS[provider];
+      // Swap the endpoint only if it still points at the other provider's default
+      if (Object.values(DEFAULT_ENDPOINTS).includes(normalizeEndpoint(endpointEl.value, provider))) {
+        endpointEl.value = DEFAULT_ENDPOINTS[provider];
+      }
+    });
   
+    // The interval only matters in interval mode
+    coachModeEl.addEventListener('change', () => { intervalEl.disabled = coachModeEl.value !== 'interval'; });
+
     pausedEl.addEventListener('change', async (e) => {
       const checked = (e.target as HTMLInputElement).checked;
       await setSettings({ paused: checked });
@@ -52,27 +192,38 @@ type Settings = {
   
     qs<HTMLButtonElement>('#run').addEventListener('click', () => {
       setStatus('Running…');
-      chrome.runtime.sendMessage({ cmd: 'run-now' }, (res) => {
-        if (res?.ok) setStatus('Done', 'ok');
-        else setStatus(res?.error || 'Error', 'bad');
-      });
+      // Output streams into the Overleaf tab's panel; only the outcome comes back here
+      bg.call('coach:run', undefined).then(
+        (res) => setStatus(res.stopped ? 'Stopped' : 'Done', 'ok'),
+        (e) => setStatus(e?.message || 'Error', 'bad'),
+      );
     });
   
     qs<HTMLButtonElement>('#save').addEventListener('click', async () => {
       const intervalMinRaw = parseInt(intervalEl.value || '5', 10);
       const intervalMin = Math.max(1, Math.min(60, Number.isFinite(intervalMinRaw) ? intervalMinRaw : 5));
       const model = (modelEl.value || '').trim() || 'gpt-oss:20b';
-      const endpoint = normalizeEndpoint(endpointEl.value);
+      const embedModel = (embedModelEl.value || '').trim() || 'nomic-embed-text';
+      const provider = providerEl.value as ProviderType;
+      const endpoint = normalizeEndpoint(endpointEl.value, provider);
+      const apiKey = (apiKeyEl.value || '').trim();
+      const coachMode = coachModeEl.value as CoachMode;
+      const contextPreference = qs<HTMLSelectElement>('#contextPreference').value as ContextPreference;
+      const taskModels = Object.fromEntries(
+        Object.entries(TASK_FIELDS).map(([task, sel]) => [task, qs<HTMLInputElement>(sel).value.trim()]),
+      ) as TaskModels;
   
-      await setSettings({ intervalMin, model, endpoint });
+      await setSettings({ coachMode, intervalMin, model, embedModel, taskModels, contextPreference, provider, endpoint, apiKey });
       setStatus('Saved', 'ok');
+      // The endpoint or provider may have changed
+      modelProvider = provider;
+      loadModels();
     });
   
     qs<HTMLButtonElement>('#test').addEventListener('click', async () => {
       setStatus('Testing…');
-      chrome.runtime.sendMessage({ cmd: 'ping-endpoint' }, (res) => {
-        setStatus(res?.ok ? 'OK' : 'Offline', res?.ok ? 'ok' : 'bad');
-      });
+      const ok = await bg.call('ping-endpoint', undefined).catch(() => false);
+      setStatus(ok ? 'OK' : 'Offline', ok ? 'ok' : 'bad');
     });
   }
   
@@ -81,8 +232,22 @@ type Settings = {
     const s = await getSettings();
     qs<HTMLInputElement>('#paused').checked = !!s?.paused;
     qs<HTMLInputElement>('#interval').value = String(s?.intervalMin ?? 5);
+    qs<HTMLSelectElement>('#coachMode').value = s?.coachMode ?? 'edit';
+    qs<HTMLInputElement>('#interval').disabled = (s?.coachMode ?? 'edit') !== 'interval';
     qs<HTMLInputElement>('#model').value = s?.model ?? 'gpt-oss:20b';
-    qs<HTMLInputElement>('#endpoint').value = s?.endpoint ?? 'http://localhost:11434';
+    qs<HTMLInputElement>('#embedModel').value = s?.embedModel ?? 'nomic-embed-text';
+    for (const [task, sel] of Object.entries(TASK_FIELDS)) {
+      qs<HTMLInputElement>(sel).value = s?.taskModels?.[task as ModelTask] ?? '';
+      qs<HTMLInputElement>(sel).placeholder = 'Same as Model';
+    }
+    const provider: ProviderType = s?.provider === 'openai' ? 'openai' : 'ollama';
+    qs<HTMLSelectElement>('#provider').value = provider;
+    qs<HTMLInputElement>('#endpoint').placeholder = DEFAULT_ENDPOINTS[provider];
+    qs<HTMLInputElement>('#endpoint').value = s?.endpoint ?? DEFAULT_ENDPOINTS[provider];
+    qs<HTMLInputElement>('#apiKey').value = s?.apiKey ?? '';
+    qs<HTMLSelectElement>('#contextPreference').value = s?.contextPreference ?? 'balanced';
+    modelProvider = provider;
+    await loadModels();
   }
   
   document.addEventListener('DOMContentLoaded', () => {
@@ -0,0 +1,90 @@
+// WriteTank — Project model shared by content script and background
+// - Identifies a document as Overleaf project id + file path
+// - Pure helpers for indexing captured .tex/.bib files (no chrome.* or DOM access)
+
+// Which document a piece of text came from
+export type DocRef = {
+  projectId: string; // Overleaf project id, or a hash of the page URL outside /project/…
+  path: string;      // file path inside the project, e.g. "chapters/ch2.tex"
+};
+
+export type ProjectFile = {
+  path: string;
+  text: string;
+  hash: string;
+  updatedAt: number;
+  source: 'editor' | 'zip';
+};
+
+export type ProjectExcerpt = { path: string; line: number; text: string; score: number };
+
+export function simpleHash(s: string): string {
+  let h = 0; for (let i = 0; i < s.length; i++) { h = ((h << 5) - h) + s.charCodeAt(i); h |= 0; }
+  return String(h >>> 0);
+}
+
+export function projectIdFromUrl(url: string): string {
+  const m = url.match(/\/project\/([0-9a-f]{24})/i);
+  return m ? m[1] : simpleHash(url);
+}
+
+export function isIndexablePath(path: string): boolean {
+  return /\.(tex|bib)$/i.test(path);
+}
+
+export function projectFilesKey(projectId: string) {
+  return `wt:project:${projectId}:files`;
+}
+
+export function tokenize(s: string): Set<string> {
+  return new Set((s.toLowerCase().match(/[a-z0-9]{3,}/g) || []));
+}
+
+// Section headings per file, for a compact "project map" the model can orient by
+export function projectOutline(files: ProjectFile[], max = 600): string {
+  const lines: string[] = [];
+  for (const f of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+    const heads = Array.from(f.text.matchAll(/\\(chapter|section)\*?\{([^}]*)\}/g)).map(m => m[2].trim());
+    lines.push(heads.length ? `${f.path}: ${heads.join('; ')}` : f.path);
+  }
+  const out = lines.join('\n');
+  return out.length > max ? out.slice(0, max) : out;
+}
+
+// Split into blank-line separated paragraphs, keeping each one's 1-based start line
+export function paragraphs(text: string): { line: number; text: string }[] {
+  const out: { line: number; text: string }[] = [];
+  let buf: string[] = [];
+  let start = 1;
+  text.split('\n').forEach((l, i) => {
+    if (l.trim()) {
+      if (buf.length === 0) start = i + 1;
+      buf.push(l);
+    } else if (buf.length) {
+      out.push({ line: start, text: buf.join('\n') });
+      buf = [];
+    }
+  });
+  if (buf.length) out.push({ line: start, text: buf.join('\n') });
+  return out;
+}
+
+// Paragraphs from other project files that share the most terms with the query
+export function findProjectExcerpts(query: string, files: ProjectFile[], opts: { excludePath?: string; limit?: number; maxChars?: number } = {}): ProjectExcerpt[] {
+  const { excludePath, limit = 2, maxChars = 300 } = opts;
+  const q = tokenize(query);
+  if (q.size === 0) return [];
+  const hits: ProjectExcerpt[] = [];
+  for (const f of files) {
+    if (f.path === excludePath || !/\.tex$/i.test(f.path)) continue;
+    // A mention of the file name ("chapter2" → chapter2.tex) boosts all its paragraphs
+    const nameBoost = Array.from(tokenize(f.path)).some(w => q.has(w)) ? 1 : 0;
+    for (const p of paragraphs(f.text)) {
+      const t = tokenize(p.text);
+      let score = 0;
+      for (const w of q) if (t.has(w)) score++;
+      if (score > 0) hits.push({ path: f.path, line: p.line, text: p.text.slice(0, maxChars), score: score + nameBoost });
+    }
+  }
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
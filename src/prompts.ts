@@ -0,0 +1,108 @@
+// WriteTank — User-defined prompt actions
+// - An action is a button in the panel that sends its template to the model
+// - Templates use {{variable}} placeholders filled in by the background (see PROMPT_VARIABLES)
+// - Actions travel between users as JSON "packs" (export/import on the options page)
+
+export type PromptAction = {
+  id: string;
+  label: string;    // button text in the panel
+  template: string; // user prompt; {{variables}} are filled in when the action runs
+};
+
+export type PromptPack = {
+  writetank: 'prompt-pack';
+  version: 1;
+  name: string;
+  actions: PromptAction[];
+};
+
+export const PROMPT_VARIABLES = {
+  selection: 'Selected text in the editor',
+  section_title: 'Title of the section the selection is in',
+  summary: 'Cached summary of this section (empty until one exists)',
+  document: 'The open file (trimmed)',
+  file: 'Path of the open file',
+  project_outline: 'Section headings of the project\'s captured files',
+} as const;
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+
+export const DEFAULT_PROMPT_ACTIONS: PromptAction[] = [
+  {
+    id: 'tighten-80',
+    label: 'Tighten to 80 words',
+    template: 'Rewrite the following LaTeX text in at most 80 words. Keep every claim, citation and \\ref; drop filler.\n'
+      + 'Output only the rewritten LaTeX.\n\n{{selection}}',
+  },
+  {
+    id: 'passive-free',
+    label: 'Remove passive voice',
+    template: 'Rewrite the following LaTeX text in the active voice. Change nothing else: keep the meaning, terms, '
+      + 'math, \\cite and \\ref exactly. Output only the rewritten LaTeX.\n\n{{selection}}',
+  },
+  {
+    id: 'limitations',
+    label: 'Write limitations paragraph',
+    template: 'Section: {{section_title}}\nSummary of the work so far:\n{{summary}}\n\nRelevant text:\n{{selection}}\n\n'
+      + 'Write one LaTeX paragraph (\\paragraph{Limitations}) naming 2–3 honest limitations of this work and how '
+      + 'future work could address them. Use \\cite{TODO} where a citation is needed.',
+  },
+];
+
+const MAX_ACTIONS = 50;
+const MAX_TEMPLATE_CHARS = 8000;
+
+// {{ name }} → value; unknown names are left as written so they show up in the prompt preview
+export function renderTemplate(template: string, vars: Partial<Record<PromptVariable, string>>): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (m, name: string) =>
+    name in PROMPT_VARIABLES ? (vars[name as PromptVariable] ?? '') : m);
+}
+
+export function templateVariables(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(/\{\{\s*([a-z_]+)\s*\}\}/g), m => m[1]))];
+}
+
+export function unknownVariables(template: string): string[] {
+  return templateVariables(template).filter(v => !(v in PROMPT_VARIABLES));
+}
+
+export function actionIdFromLabel(label: string): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  return slug || `action-${Date.now().toString(36)}`;
+}
+
+export function exportPack(name: string, actions: PromptAction[]): string {
+  const pack: PromptPack = { writetank: 'prompt-pack', version: 1, name, actions };
+  return JSON.stringify(pack, null, 2);
+}
+
+// Parse and validate a pack (a bare array of actions is accepted too); throws with a readable message
+export function parsePack(json: string): PromptPack {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  const list = Array.isArray(data) ? data : data?.actions;
+  if (!Array.isArray(list)) throw new Error('No "actions" list in this file');
+  if (!Array.isArray(data) && data.writetank !== undefined && data.writetank !== 'prompt-pack') throw new Error('Not a WriteTank prompt pack');
+  if (list.length > MAX_ACTIONS) throw new Error(`Too many actions (max ${MAX_ACTIONS})`);
+  const actions = list.map((a: any, i: number): PromptAction => {
+    const label = typeof a?.label === 'string' ? a.label.trim() : '';
+    const template = typeof a?.template === 'string' ? a.template : '';
+    if (!label || !template.trim()) throw new Error(`Action ${i + 1} needs a label and a template`);
+    if (template.length > MAX_TEMPLATE_CHARS) throw new Error(`Action "${label}" is too long (max ${MAX_TEMPLATE_CHARS} chars)`);
+    const id = typeof a?.id === 'string' && a.id.trim() ? a.id.trim() : actionIdFromLabel(label);
+    return { id, label: label.slice(0, 60), template };
+  });
+  return { writetank: 'prompt-pack', version: 1, name: typeof data?.name === 'string' ? data.name : 'Imported pack', actions };
+}
+
+// Imported actions replace existing ones with the same id; the rest are appended
+export function mergeActions(existing: PromptAction[], incoming: PromptAction[]): PromptAction[] {
+  const byId = new Map(incoming.map(a => [a.id, a]));
+  const merged = existing.map(a => byId.get(a.id) ?? a);
+  const present = new Set(existing.map(a => a.id));
+  return [...merged, ...incoming.filter(a => !present.has(a.id))].slice(0, MAX_ACTIONS);
+}
@@ -0,0 +1,266 @@
+// WriteTank — Model providers
+// - Ollama: /api/chat, NDJSON streaming, health via /api/tags
+// - OpenAI-compatible: /v1/chat/completions, SSE streaming, health via /v1/models
+// - Embeddings: /api/embed (Ollama) or /v1/embeddings (OpenAI-compatible)
+// - Structured output: a JSON schema as `format` (Ollama) or `response_format` (OpenAI-compatible)
+// - Model discovery: /api/tags + /api/show (Ollama) or /v1/models (ids only); pulls via /api/pull
+// Both run from the background worker (avoids CORS).
+
+import type { ProviderType, Settings } from './settings.ts';
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  numPredict: number; // hard cap output tokens
+  numCtx: number;     // context window (ignored where the server fixes it)
+  signal?: AbortSignal; // aborts the request, including a stream in progress
+  model?: string;       // overrides settings.model (per-task models, see modelFor)
+  format?: object;      // JSON schema the reply must follow (structured output)
+};
+
+export type ModelInfo = {
+  name: string;
+  size?: number;          // bytes on disk
+  parameterSize?: string; // e.g. "20.9B"
+  quantization?: string;  // e.g. "MXFP4", "Q4_K_M"
+  family?: string;
+};
+
+export type ModelDetails = ModelInfo & { contextLength?: number };
+
+// One line of an /api/pull stream; `total`/`completed` are bytes of the layer being downloaded
+export type PullProgress = { status: string; total?: number; completed?: number };
+
+export type Provider = {
+  type: ProviderType;
+  chat(req: ChatRequest): Promise<string>;
+  chatStream(req: ChatRequest, onDelta: (text: string) => void): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>; // one vector per input, using settings.embedModel
+  ping(): Promise<boolean>; // probes the provider's health route
+  models(): Promise<ModelInfo[]>;
+  // Ollama only: details of one model, and downloading a missing one
+  show?(name: string): Promise<ModelDetails>;
+  pull?(name: string, onProgress: (p: PullProgress) => void, signal?: AbortSignal): Promise<void>;
+};
+
+// Shared sampling knobs; kept low-temperature for stable LaTeX output
+const TEMPERATURE = 0.2;
+const TOP_P = 0.9;
+const STOP = ['\n\n\n'];
+
+function baseUrl(endpoint: string) {
+  return endpoint.replace(/\/+$/, '');
+}
+
+function authHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey.trim()) headers['Authorization'] = `Bearer ${apiKey.trim()}`;
+  return headers;
+}
+
+async function probe(url: string, apiKey: string): Promise<boolean> {
+  try {
+    const r = await fetch(url, { headers: authHeaders(apiKey) });
+    return r.ok;
+  } catch {
+    return false;
+  }
+}
+
+// Read a streamed body line by line; `onLine` gets each non-empty trimmed line
+async function readLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let idx;
+    while ((idx = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, idx).trim();
+      buffer = buffer.slice(idx + 1);
+      if (line) onLine(line);
+    }
+  }
+  // flush remainder
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+// --- Ollama (/api/chat)
+function ollamaProvider(s: Settings): Provider {
+  const root = baseUrl(s.endpoint);
+  const body = (req: ChatRequest, stream: boolean) => JSON.stringify({
+    model: req.model || s.model,
+    messages: req.messages,
+    stream,
+    keep_alive: '30m',
+    ...(req.format ? { format: req.format } : {}),
+    options: {
+      num_predict: req.numPredict,
+      num_ctx: req.numCtx,
+      temperature: TEMPERATURE,
+      top_p: TOP_P,
+      repeat_penalty: 1.1,
+      // Optional stop sequences to cut tails (not for JSON, which they could cut short)
+      ...(req.format ? {} : { stop: STOP }),
+    },
+  });
+  return {
+    type: 'ollama',
+    async chat(req) {
+      const res = await fetch(`${root}/api/chat`, { method: 'POST', headers: authHeaders(s.apiKey), body: body(req, false), signal: req.signal });
+      if (!res.ok) throw new Error(`Ollama HTTP ${res.status}`);
+      const data = await res.json();
+      return data?.message?.content ?? '';
+    },
+    async chatStream(req, onDelta) {
+      const res = await fetch(`${root}/api/chat`, { method: 'POST', headers: authHeaders(s.apiKey), body: body(req, true), signal: req.signal });
+      if (!res.ok || !res.body) throw new Error(`Ollama HTTP ${res.status}`);
+      let full = '';
+      await readLines(res.body, (line) => {
+        try {
+          const obj = JSON.parse(line);
+          const delta = obj?.message?.content || obj?.response || '';
+          if (delta) {
+            full += delta;
+            onDelta(delta);
+          }
+        } catch {
+          // ignore malformed fragments
+        }
+      });
+      return full;
+    },
+    async embed(texts) {
+      const res = await fetch(`${root}/api/embed`, {
+        method: 'POST',
+        headers: authHeaders(s.apiKey),
+        body: JSON.stringify({ model: s.embedModel, input: texts, keep_alive: '30m' }),
+      });
+      if (!res.ok) throw new Error(`Ollama embed HTTP ${res.status}`);
+      const data = await res.json();
+      return data?.embeddings ?? [];
+    },
+    ping: () => probe(`${root}/api/tags`, s.apiKey),
+    async models() {
+      const res = await fetch(`${root}/api/tags`, { headers: authHeaders(s.apiKey) });
+      if (!res.ok) throw new Error(`Ollama HTTP ${res.status}`);
+      const data = await res.json();
+      return (data?.models ?? []).map((m: any): ModelInfo => ({
+        name: m.name ?? m.model,
+        size: m.size,
+        parameterSize: m.details?.parameter_size,
+        quantization: m.details?.quantization_level,
+        family: m.details?.family,
+      }));
+    },
+    async show(name) {
+      const res = await fetch(`${root}/api/show`, { method: 'POST', headers: authHeaders(s.apiKey), body: JSON.stringify({ model: name }) });
+      if (res.status === 404) throw new Error(`Model not found: ${name}`);
+      if (!res.ok) throw new Error(`Ollama HTTP ${res.status}`);
+      const data = await res.json();
+      // model_info keys are prefixed with the architecture, e.g. "llama.context_length"
+      const info: Record<string, unknown> = data?.model_info ?? {};
+      const arch = info['general.architecture'];
+      const ctx = info[`${arch}.context_length`];
+      return {
+        name,
+        parameterSize: data?.details?.parameter_size,
+        quantization: data?.details?.quantization_level,
+        family: data?.details?.family,
+        contextLength: typeof ctx === 'number' ? ctx : undefined,
+      };
+    },
+    async pull(name, onProgress, signal) {
+      const res = await fetch(`${root}/api/pull`, {
+        method: 'POST',
+        headers: authHeaders(s.apiKey),
+        body: JSON.stringify({ model: name, stream: true }),
+        signal,
+      });
+      if (!res.ok || !res.body) throw new Error(`Ollama pull HTTP ${res.status}`);
+      let failed = '';
+      await readLines(res.body, (line) => {
+        try {
+          const obj = JSON.parse(line);
+          if (obj?.error) failed = String(obj.error);
+          else if (obj?.status) onProgress({ status: obj.status, total: obj.total, completed: obj.completed });
+        } catch {
+          // ignore malformed fragments
+        }
+      });
+      if (failed) throw new Error(failed);
+    },
+  };
+}
+
+// --- OpenAI-compatible (/v1/chat/completions)
+function openaiProvider(s: Settings): Provider {
+  // Accept both "http://host:8080" and "http://host:8080/v1"
+  const root = baseUrl(s.endpoint).replace(/\/v1$/, '');
+  const body = (req: ChatRequest, stream: boolean) => JSON.stringify({
+    model: req.model || s.model,
+    messages: req.messages,
+    stream,
+    max_tokens: req.numPredict,
+    temperature: TEMPERATURE,
+    top_p: TOP_P,
+    ...(req.format
+      ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: req.format } } }
+      : { stop: STOP }),
+  });
+  return {
+    type: 'openai',
+    async chat(req) {
+      const res = await fetch(`${root}/v1/chat/completions`, { method: 'POST', headers: authHeaders(s.apiKey), body: body(req, false), signal: req.signal });
+      if (!res.ok) throw new Error(`OpenAI-compatible HTTP ${res.status}`);
+      const data = await res.json();
+      return data?.choices?.[0]?.message?.content ?? '';
+    },
+    async chatStream(req, onDelta) {
+      const res = await fetch(`${root}/v1/chat/completions`, { method: 'POST', headers: authHeaders(s.apiKey), body: body(req, true), signal: req.signal });
+      if (!res.ok || !res.body) throw new Error(`OpenAI-compatible HTTP ${res.status}`);
+      let full = '';
+      await readLines(res.body, (line) => {
+        // SSE: only "data:" lines carry payloads; "[DONE]" terminates
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice(5).trim();
+        if (!payload || payload === '[DONE]') return;
+        try {
+          const obj = JSON.parse(payload);
+          const delta = obj?.choices?.[0]?.delta?.content || '';
+          if (delta) {
+            full += delta;
+            onDelta(delta);
+          }
+        } catch {
+          // ignore malformed fragments
+        }
+      });
+      return full;
+    },
+    async embed(texts) {
+      const res = await fetch(`${root}/v1/embeddings`, {
+        method: 'POST',
+        headers: authHeaders(s.apiKey),
+        body: JSON.stringify({ model: s.embedModel, input: texts }),
+      });
+      if (!res.ok) throw new Error(`OpenAI-compatible embed HTTP ${res.status}`);
+      const data = await res.json();
+      return (data?.data ?? []).map((d: { embedding: number[] }) => d.embedding);
+    },
+    ping: () => probe(`${root}/v1/models`, s.apiKey),
+    async models() {
+      const res = await fetch(`${root}/v1/models`, { headers: authHeaders(s.apiKey) });
+      if (!res.ok) throw new Error(`OpenAI-compatible HTTP ${res.status}`);
+      const data = await res.json();
+      return (data?.data ?? []).map((m: { id: string }): ModelInfo => ({ name: m.id }));
+    },
+  };
+}
+
+export function createProvider(s: Settings): Provider {
+  return s.provider === 'openai' ? openaiProvider(s) : ollamaProvider(s);
+}
@@ -0,0 +1,127 @@
+// WriteTank — Cross-reference and label integrity checks (no model involved)
+// - Collects \label and \ref-family targets across the given files
+// - Reports undefined references, unused and duplicate labels, and figures/tables
+//   that nothing references
+// - Comments and verbatim blocks are ignored (via the LaTeX tokenizer); lines stay 1-based
+
+import { tokenizeLatex } from './latex-check.ts';
+import { lineFinder } from './text.ts';
+
+export type RefIssueCode = 'undefined-ref' | 'unused-label' | 'duplicate-label' | 'unreferenced-float';
+
+export type RefIssue = {
+  code: RefIssueCode;
+  key: string;     // label key ('' for a float without any label)
+  message: string;
+  path: string;
+  line: number;    // 1-based
+  from: number;    // source offsets of the \ref, \label or \begin{…} concerned
+  to: number;
+};
+
+export type RefCheckResult = {
+  issues: RefIssue[];
+  labels: number;  // distinct labels defined
+  refs: number;    // reference uses
+  files: number;   // files checked
+};
+
+type Site = { key: string; path: string; line: number; offset: number; end: number; command?: string };
+
+// \ref, \eqref, \cref{a,b}, \crefrange{a}{b}, … (keys are comma separated for the cleveref family)
+const REF_COMMAND = /\\(ref|eqref|pageref|autoref|nameref|vref|[cC]ref|[cC]pageref|labelcref|[cC]refrange|[cC]pagerefrange)\*?\s*\{([^}]*)\}(?:\s*\{([^}]*)\})?/g;
+const LABEL_COMMAND = /\\label\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g;
+const FLOAT_ENV = /\\(begin|end)\{((?:figure|table|wrapfigure|wraptable|sidewaysfigure|sidewaystable|subfigure|subtable)\*?)\}/g;
+
+// Blank out comments and verbatim bodies, keeping offsets and newlines where they are
+function codeOnly(text: string): string {
+  let out = '';
+  let at = 0;
+  for (const t of tokenizeLatex(text)) {
+    if (t.type !== 'comment' && t.type !== 'verbatim') continue;
+    out += text.slice(at, t.offset) + text.slice(t.offset, t.offset + t.length).replace(/[^\n]/g, ' ');
+    at = t.offset + t.length;
+  }
+  return out + text.slice(at);
+}
+
+// Float environments with the labels defined inside them (outermost float owns nested ones)
+type Float = { env: string; line: number; from: number; to: number; keys: string[] };
+function floatsIn(text: string, path: string, labels: Site[], lineAt: (offset: number) => number): Float[] {
+  const floats: Float[] = [];
+  const open: { env: string; offset: number; end: number }[] = [];
+  for (const m of text.matchAll(FLOAT_ENV)) {
+    if (m[1] === 'begin') { open.push({ env: m[2], offset: m.index!, end: m.index! + m[0].length }); continue; }
+    const k = open.map(o => o.env).lastIndexOf(m[2]);
+    if (k < 0) continue;
+    const { offset: start, end: head } = open[k];
+    open.length = k;
+    if (open.length) continue; // nested (subfigure in figure): the outer float reports
+    const end = m.index! + m[0].length;
+    const keys = labels.filter(l => l.path === path && l.offset > start && l.offset < end).map(l => l.key);
+    floats.push({ env: m[2].replace(/\*$/, ''), line: lineAt(start), from: start, to: head, keys });
+  }
+  return floats;
+}
+
+export function checkReferences(files: { path: string; text: string }[]): RefCheckResult {
+  const labels: Site[] = [];
+  const refs: Site[] = [];
+  const code = files.map(f => {
+    const text = codeOnly(f.text);
+    return { path: f.path, text, lineAt: lineFinder(text) };
+  });
+  for (const f of code) {
+    for (const m of f.text.matchAll(LABEL_COMMAND)) {
+      const key = m[1].trim();
+      if (key) labels.push({ key, path: f.path, line: f.lineAt(m.index!), offset: m.index!, end: m.index! + m[0].length });
+    }
+    for (const m of f.text.matchAll(REF_COMMAND)) {
+      const line = f.lineAt(m.index!);
+      const keys = [...m[2].split(','), ...(m[3] ?? '').split(',')].map(k => k.trim()).filter(Boolean);
+      for (const key of keys) refs.push({ key, path: f.path, line, offset: m.index!, end: m.index! + m[0].length, command: m[1] });
+    }
+  }
+
+  const issues: RefIssue[] = [];
+  const defined = new Map<string, Site[]>();
+  for (const l of labels) defined.set(l.key, [...(defined.get(l.key) ?? []), l]);
+  const referenced = new Set(refs.map(r => r.key));
+
+  for (const r of refs) {
+    if (!defined.has(r.key)) issues.push({ code: 'undefined-ref', key: r.key, path: r.path, line: r.line, from: r.offset, to: r.end, message: `\\${r.command}{${r.key}}: no such label (renders as ??)` });
+  }
+  for (const [key, sites] of defined) {
+    if (sites.length < 2) continue;
+    for (const s of sites.slice(1)) {
+      issues.push({ code: 'duplicate-label', key, path: s.path, line: s.line, from: s.offset, to: s.end, message: `Label "${key}" is also defined at ${sites[0].path}:${sites[0].line}` });
+    }
+  }
+
+  // Float labels are reported as unreferenced floats rather than unused labels
+  const floatLabels = new Set<string>();
+  for (const f of code) {
+    for (const fl of floatsIn(f.text, f.path, labels, f.lineAt)) {
+      fl.keys.forEach(k => floatLabels.add(k));
+      if (fl.keys.some(k => referenced.has(k))) continue;
+      issues.push({
+        code: 'unreferenced-float',
+        key: fl.keys[0] ?? '',
+        path: f.path,
+        line: fl.line,
+        from: fl.from,
+        to: fl.to,
+        message: fl.keys.length
+          ? `${fl.env} "${fl.keys[0]}" is never referenced in the text`
+          : `${fl.env} has no \\label, so it cannot be referenced`,
+      });
+    }
+  }
+  for (const [key, sites] of defined) {
+    if (referenced.has(key) || floatLabels.has(key)) continue;
+    issues.push({ code: 'unused-label', key, path: sites[0].path, line: sites[0].line, from: sites[0].offset, to: sites[0].end, message: `Label "${key}" is never referenced` });
+  }
+
+  issues.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+  return { issues, labels: defined.size, refs: refs.length, files: files.length };
+}
@@ -0,0 +1,58 @@
+// WriteTank — Local vector index for Q&A retrieval
+// - Holds embeddings of cached section summaries and raw paragraphs per project
+// - Pure helpers; the background owns embedding calls and chrome.storage.local
+
+export type VectorItem = {
+  id: string;   // "summary:<sectionKey>" or "para:<path>#<hash>"
+  kind: 'summary' | 'paragraph';
+  path: string;
+  line: number;  // 1-based start line (0 for summaries)
+  title: string; // enclosing \section title, for display
+  text: string;
+  vector: number[];
+};
+
+export type VectorIndex = {
+  model: string; // vectors from different embedding models are not comparable
+  items: Record<string, VectorItem>;
+};
+
+// What the panel shows about each retrieved item
+export type RetrievedSource = { kind: VectorItem['kind']; path: string; line: number; title: string; score: number };
+
+export function vectorIndexKey(projectId: string) {
+  return `wt:vectors:${projectId}`;
+}
+
+// Paragraphs shorter than this carry too little meaning to be worth a vector
+export const MIN_PARAGRAPH_CHARS = 80;
+
+export function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) { dot += a[i] * b[i]; na += a[i] * a[i]; nb += b[i] * b[i]; }
+  return na && nb ? dot / (Math.sqrt(na) * Math.sqrt(nb)) : 0;
+}
+
+// Round components so the JSON stored in chrome.storage stays small
+export function compactVector(v: number[]): number[] {
+  return v.map(x => Math.round(x * 1e5) / 1e5);
+}
+
+export function topK(index: VectorIndex, query: number[], k: number, keep: (item: VectorItem) => boolean = () => true) {
+  return Object.values(index.items)
+    .filter(keep)
+    .map(item => ({ item, score: cosine(item.vector, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+// Title of the nearest \chapter/\section/\subsection at or above `line`
+export function sectionTitleAt(text: string, line: number): string {
+  const lines = text.split('\n');
+  for (let i = Math.min(line, lines.length) - 1; i >= 0; i--) {
+    const m = lines[i].match(/\\(?:chapter|section|subsection)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/);
+    if (m) return m[1].trim();
+  }
+  return '';
+}
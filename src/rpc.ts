@@ -0,0 +1,164 @@
+// WriteTank — RPC over chrome.runtime ports (protocol in messages.ts)
+// - createPeer wraps one port: call the other side's methods, serve our own,
+//   open push streams and listen to the other side's
+// - connectBackground is the content-script/popup end; it (re)connects lazily,
+//   because the MV3 service worker and with it every port can go away at any time
+
+import {
+  PORT_NAME,
+  type BackgroundMethods, type MethodMap, type MethodSpec, type RpcMessage, type RpcRequest,
+} from './messages.ts';
+
+export type HandlerContext<D> = {
+  emit: (delta: D) => void; // stream a delta to the caller before the result
+  port: chrome.runtime.Port; // port.sender.tab is the calling tab (unset for the popup)
+};
+
+export type Handlers<L extends MethodMap> = {
+  [K in keyof L]?: (params: L[K]['params'], ctx: HandlerContext<L[K]['delta']>) => Promise<L[K]['result']> | L[K]['result'];
+};
+
+// Callbacks for a stream the other side opened without a request
+export type StreamListener<S extends MethodSpec> = {
+  start?: () => void;
+  delta?: (delta: S['delta']) => void;
+  done?: (result: S['result']) => void;
+  error?: (error: string) => void;
+};
+export type StreamListeners<I extends MethodMap> = { [K in keyof I]?: StreamListener<I[K]> };
+
+export type PushStream<S extends MethodSpec> = {
+  emit: (delta: S['delta']) => void;
+  done: (result: S['result']) => void;
+  error: (message: string) => void;
+};
+
+export type CallFn<R extends MethodMap> = <K extends keyof R & string>(
+  method: K,
+  params: R[K]['params'],
+  onDelta?: (delta: R[K]['delta']) => void,
+) => Promise<R[K]['result']>;
+
+export type Peer<R extends MethodMap, O extends MethodMap> = {
+  port: chrome.runtime.Port;
+  call: CallFn<R>;
+  open: <K extends keyof O & string>(method: K) => PushStream<O[K]>;
+  onDisconnect: (fn: () => void) => void;
+};
+
+type Pending = { resolve: (v: any) => void; reject: (e: unknown) => void; onDelta?: (d: any) => void };
+
+// R: methods the other side serves; L: methods we serve; O: streams we push; I: streams we receive
+export function createPeer<R extends MethodMap, L extends MethodMap = {}, O extends MethodMap = {}, I extends MethodMap = {}>(
+  port: chrome.runtime.Port,
+  handlers: Handlers<L> = {},
+  listeners: StreamListeners<I> = {},
+): Peer<R, O> {
+  // Our ids carry a per-peer prefix so they never collide with the other side's
+  const prefix = Math.random().toString(36).slice(2, 8);
+  let seq = 0;
+  let connected = true;
+  const pending = new Map<string, Pending>();
+  const streams = new Map<string, StreamListener<MethodSpec>>();
+  const disconnectFns: (() => void)[] = [];
+
+  function post(msg: RpcMessage) {
+    if (!connected) return;
+    try {
+      port.postMessage(msg);
+    } catch {
+      // Port closed under us; onDisconnect cleans up
+    }
+  }
+
+  async function serve(req: RpcRequest) {
+    const handler = (handlers as Record<string, Handlers<MethodMap>[string]>)[req.method];
+    if (!handler) { post({ type: 'error', id: req.id, error: `Unknown method: ${req.method}` }); return; }
+    post({ type: 'start', id: req.id, method: req.method });
+    try {
+      const result = await handler(req.params, { emit: delta => post({ type: 'delta', id: req.id, delta }), port });
+      post({ type: 'done', id: req.id, result });
+    } catch (e: any) {
+      post({ type: 'error', id: req.id, error: e?.message || String(e) });
+    }
+  }
+
+  port.onMessage.addListener((msg: RpcMessage) => {
+    switch (msg?.type) {
+      case 'request':
+        serve(msg);
+        return;
+      case 'start':
+        if (!pending.has(msg.id)) {
+          const listener = (listeners as Record<string, StreamListener<MethodSpec>>)[msg.method];
+          if (listener) { streams.set(msg.id, listener); listener.start?.(); }
+        }
+        return;
+      case 'delta':
+        (pending.get(msg.id)?.onDelta ?? streams.get(msg.id)?.delta)?.(msg.delta);
+        return;
+      case 'done':
+        pending.get(msg.id)?.resolve(msg.result);
+        streams.get(msg.id)?.done?.(msg.result);
+        pending.delete(msg.id);
+        streams.delete(msg.id);
+        return;
+      case 'error':
+        pending.get(msg.id)?.reject(new Error(msg.error));
+        streams.get(msg.id)?.error?.(msg.error);
+        pending.delete(msg.id);
+        streams.delete(msg.id);
+        return;
+    }
+  });
+
+  port.onDisconnect.addListener(() => {
+    void chrome.runtime.lastError; // read it so Chrome does not log "Unchecked runtime.lastError"
+    connected = false;
+    for (const p of pending.values()) p.reject(new Error('Connection to WriteTank lost'));
+    for (const s of streams.values()) s.error?.('Connection to WriteTank lost');
+    pending.clear();
+    streams.clear();
+    for (const fn of disconnectFns) fn();
+  });
+
+  const call: CallFn<R> = (method, params, onDelta) => {
+    if (!connected) return Promise.reject(new Error('Connection to WriteTank lost'));
+    const id = `${prefix}:${++seq}`;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject, onDelta });
+      post({ type: 'request', id, method, params });
+    });
+  };
+
+  function open<K extends keyof O & string>(method: K): PushStream<O[K]> {
+    const id = `${prefix}:${++seq}`;
+    post({ type: 'start', id, method });
+    return {
+      emit: delta => post({ type: 'delta', id, delta }),
+      done: result => post({ type: 'done', id, result }),
+      error: message => post({ type: 'error', id, error: message }),
+    };
+  }
+
+  return { port, call, open, onDisconnect: fn => { disconnectFns.push(fn); } };
+}
+
+// Content script / popup end. Connects on first use and again after the worker restarts.
+export function connectBackground<L extends MethodMap = {}, I extends MethodMap = {}>(
+  handlers: Handlers<L> = {},
+  listeners: StreamListeners<I> = {},
+) {
+  let peer: Peer<BackgroundMethods, {}> | null = null;
+
+  function connect(): Peer<BackgroundMethods, {}> {
+    if (peer) return peer;
+    const p = createPeer<BackgroundMethods, L, {}, I>(chrome.runtime.connect({ name: PORT_NAME }), handlers, listeners);
+    p.onDisconnect(() => { if (peer === p) peer = null; });
+    peer = p;
+    return p;
+  }
+
+  const call: CallFn<BackgroundMethods> = (method, params, onDelta) => connect().call(method, params, onDelta);
+  return { call, connect: () => { connect(); } };
+}
@@ -0,0 +1,68 @@
+// WriteTank — Shared settings shape and defaults
+// - Used by the background worker (source of truth) and the popup/options pages
+
+import { DEFAULT_PROMPT_ACTIONS, type PromptAction } from './prompts.ts';
+import { DEFAULT_STYLE_LINT, type StyleLintConfig } from './style-lint.ts';
+import type { ContextPreference } from './budget.ts';
+import type { SiteConfig } from './sites.ts';
+
+// 'ollama' speaks /api/chat; 'openai' speaks /v1/chat/completions
+// (llama.cpp server, LM Studio, vLLM, LocalAI, ...)
+export type ProviderType = 'ollama' | 'openai';
+
+// When Auto-coach runs (unless paused): after a pause in typing, on a timer, or only when asked
+export type CoachMode = 'edit' | 'interval' | 'manual';
+
+// Tasks that can use their own model; an empty entry falls back to `model`
+// (embeddings have their own field, `embedModel`)
+export type ModelTask = 'qa' | 'coach' | 'expand' | 'summarize';
+export type TaskModels = Record<ModelTask, string>;
+
+export type Settings = {
+  provider: ProviderType;
+  endpoint: string; // e.g. http://localhost:11434
+  apiKey: string;   // optional; sent as "Authorization: Bearer <key>" when set
+  model: string;    // e.g. gpt-oss:20b
+  embedModel: string; // e.g. nomic-embed-text; used for Q&A retrieval
+  taskModels: TaskModels;
+  contextPreference: ContextPreference; // caps num_ctx below the model's limit (fast/balanced/thorough)
+  coachMode: CoachMode;
+  intervalMin: number; // 5–15 sensible range; used by the 'interval' mode
+  paused: boolean;
+  promptActions: PromptAction[]; // one-click actions in the panel, edited on the options page
+  styleLint: StyleLintConfig;    // rule-based style checks (Checks tab, coach hints)
+  sites: SiteConfig[];           // origins besides overleaf.com, each with its editor adapter
+};
+
+export const DEFAULTS: Settings = {
+  provider: 'ollama',
+  endpoint: 'http://localhost:11434',
+  apiKey: '',
+  model: 'gpt-oss:20b',
+  embedModel: 'nomic-embed-text',
+  taskModels: { qa: '', coach: '', expand: '', summarize: '' },
+  contextPreference: 'balanced',
+  coachMode: 'edit',
+  intervalMin: 5,
+  paused: true, // user opts in
+  promptActions: DEFAULT_PROMPT_ACTIONS,
+  styleLint: DEFAULT_STYLE_LINT,
+  sites: [],
+};
+
+// Stored settings over the defaults. Settings saved before coachMode existed keep what Auto-coach
+// did then: a user who had it running on its timer stays on 'interval'.
+export function withDefaults(stored: Partial<Settings>): Settings {
+  const coachMode = stored.coachMode ?? (stored.paused === false ? 'interval' : DEFAULTS.coachMode);
+  return { ...DEFAULTS, coachMode, ...stored };
+}
+
+// Default endpoint per provider, used as placeholder and when the field is left empty
+export const DEFAULT_ENDPOINTS: Record<ProviderType, string> = {
+  ollama: 'http://localhost:11434',
+  openai: 'http://localhost:8080',
+};
+
+export function modelFor(s: Settings, task: ModelTask): string {
+  return s.taskModels?.[task]?.trim() || s.model;
+}
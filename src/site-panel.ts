@@ -0,0 +1,7 @@
+// WriteTank — Panel entry for sites added on the options page
+// - The same panel as on overleaf.com, built as its own loader so the background can register
+//   it at runtime
+// - Its chunks are web-accessible to other sites only behind a per-session URL (manifest:
+//   <dynamic_resource>); overleaf.com keeps the fixed-address entry of its manifest script
+
+import './content.ts';
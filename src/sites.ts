@@ -0,0 +1,59 @@
+// WriteTank — Sites the panel runs on
+// - overleaf.com is built in (the manifest's content scripts); other origins, such as a
+//   self-hosted Overleaf Community Edition or another browser LaTeX editor, are added on the
+//   options page
+// - An added site needs its host permission, requested at runtime (optional_host_permissions);
+//   the background then registers the panel and bridge scripts for it
+// - Each site names the editor adapter the bridge talks to; 'auto' tries CodeMirror 6, Ace,
+//   then a textarea/contenteditable
+
+import type { EditorAdapter } from './bridge-protocol.ts';
+
+export type SiteConfig = { origin: string; adapter: EditorAdapter }; // origin: "https://latex.example.edu"
+
+export const EDITOR_ADAPTERS: Record<EditorAdapter, string> = {
+  auto: 'Detect automatically',
+  cm6: 'CodeMirror 6 (current Overleaf)',
+  ace: 'Ace (older Overleaf)',
+  textarea: 'Plain textarea / contenteditable',
+};
+
+export const BUILTIN_SITE: SiteConfig = { origin: 'https://www.overleaf.com', adapter: 'auto' };
+
+// "latex.example.edu", "https://latex.example.edu/project/…" → "https://latex.example.edu"; null if not a web origin
+export function normalizeOrigin(input: string): string | null {
+  const raw = input.trim();
+  if (!raw) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(raw) ? raw : `https://${raw}`);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+// Match pattern for a site's pages. Patterns cannot carry a port; they match every port of the host.
+export function originPattern(origin: string): string {
+  const url = new URL(origin);
+  return `${url.protocol}//${url.hostname}/*`;
+}
+
+// The site a page belongs to: the built-in one or an added one (by host, so any port matches)
+export function siteFor(url: string | undefined, sites: SiteConfig[]): SiteConfig | null {
+  if (!url) return null;
+  let page: URL;
+  try {
+    page = new URL(url);
+  } catch {
+    return null;
+  }
+  return [BUILTIN_SITE, ...sites].find(s => {
+    const site = new URL(s.origin);
+    return site.protocol === page.protocol && site.hostname === page.hostname;
+  }) ?? null;
+}
+
+export function sitePatterns(sites: SiteConfig[]): string[] {
+  return [...new Set([BUILTIN_SITE, ...sites].map(s => originPattern(s.origin)))];
+}
@@ -0,0 +1,317 @@
+// WriteTank — Rule-based style linter (no model involved)
+// - Strips LaTeX to prose while keeping a source offset for every prose character,
+//   so findings point at the right line of the .tex file
+// - Rules: long sentences, passive constructions, weasel/hedge words, repeated words,
+//   acronyms used before they are defined, hard-to-read paragraphs
+// - Readability: Flesch reading ease and Flesch–Kincaid grade for the whole text
+// - Runs instantly in the panel (Checks tab) and feeds the coach prompt as hints
+
+import { tokenizeLatex } from './latex-check.ts';
+import { escapeRegExp, lineFinder } from './text.ts';
+
+export type StyleRuleId = 'long-sentence' | 'passive' | 'hedge' | 'repeated-word' | 'undefined-acronym' | 'hard-paragraph';
+
+export type StyleLintConfig = {
+  rules: Record<StyleRuleId, boolean>;
+  maxSentenceWords: number;
+  maxParagraphGrade: number; // Flesch–Kincaid grade above which a paragraph is flagged
+  extraHedges: string[];     // added to the built-in weasel/hedge list
+  knownAcronyms: string[];   // never reported as undefined (field-standard terms such as NLP)
+};
+
+export const STYLE_RULES: Record<StyleRuleId, string> = {
+  'long-sentence': 'Long sentences',
+  'passive': 'Passive voice',
+  'hedge': 'Weasel and hedge words',
+  'repeated-word': 'Repeated words ("the the")',
+  'undefined-acronym': 'Acronyms used before they are defined',
+  'hard-paragraph': 'Hard-to-read paragraphs',
+};
+
+export const DEFAULT_STYLE_LINT: StyleLintConfig = {
+  rules: {
+    'long-sentence': true,
+    'passive': true,
+    'hedge': true,
+    'repeated-word': true,
+    'undefined-acronym': true,
+    'hard-paragraph': true,
+  },
+  maxSentenceWords: 35,
+  maxParagraphGrade: 18,
+  extraHedges: [],
+  knownAcronyms: [],
+};
+
+export type StyleIssue = {
+  rule: StyleRuleId;
+  message: string;
+  excerpt: string; // the prose the issue is about, trimmed
+  from: number;    // source offsets
+  to: number;
+  line: number;    // 1-based
+};
+
+export type Readability = {
+  words: number;
+  sentences: number;
+  wordsPerSentence: number;
+  readingEase: number; // Flesch: higher is easier; academic prose is often 10–40
+  grade: number;       // Flesch–Kincaid grade level
+};
+
+export type StyleReport = { issues: StyleIssue[]; readability: Readability };
+
+// --- LaTeX → prose
+export type Prose = { text: string; offsets: number[] }; // offsets[i]: source offset of text[i]
+
+// Content skipped entirely (display math stands in as one "X" so the sentence still reads)
+const MATH_ENVS = /^(equation|align|gather|multline|eqnarray|math|displaymath|flalign|alignat)\*?$/;
+const SKIP_ENVS = /^(figure|table|tabular|tabularx|tikzpicture|verbatim|lstlisting|minted|thebibliography|algorithm|algorithmic)\*?$/;
+// Commands whose (first) argument is not prose: dropped, or read as a noun ("Figure~\ref{f}" → "Figure X")
+const DROP_ARG = /^(cite|citep|citealp|nocite|label|url|includegraphics|input|include|bibliography|bibliographystyle|usepackage|documentclass|href|hspace|vspace|newcommand|renewcommand|setlength|footnote)$/;
+const NOUN_ARG = /^(ref|eqref|cref|Cref|autoref|pageref|nameref|vref|citet|citeauthor|ac|acp|acs|acl|gls|glspl|Gls|Glspl)$/;
+const BREAK_ARG = /^(chapter|section|subsection|subsubsection|paragraph|subparagraph|caption|title)$/;
+
+export function latexProse(latex: string): Prose {
+  const tokens = tokenizeLatex(latex);
+  const out: string[] = [];
+  const offsets: number[] = [];
+  const emit = (s: string, at: number) => { for (const ch of s) { out.push(ch); offsets.push(at); } };
+  const docStart = latex.indexOf('\\begin{document}');
+  let math: string | null = null; // open inline math delimiter
+  let skipEnv: { env: string; depth: number } | null = null;
+  let depth = 0;
+  let argMode: 'drop' | 'noun' | 'break' | null = null; // applies to the next group
+  const groups: { depth: number; mode: 'drop' | 'noun' | 'break' }[] = [];
+  const dropping = () => groups.some(g => g.mode === 'drop' || g.mode === 'noun');
+
+  for (const t of tokens) {
+    if (docStart >= 0 && t.offset < docStart) continue; // preamble
+    if (skipEnv) {
+      if (t.type === 'begin' && t.env === skipEnv.env) skipEnv.depth++;
+      if (t.type === 'end' && t.env === skipEnv.env && --skipEnv.depth === 0) skipEnv = null;
+      continue;
+    }
+    if (math) {
+      const closes = (math === '$' || math === '$$') ? t.type === 'math' && t.delim === math
+        : t.type === 'math' && t.delim === (math === '\\(' ? '\\)' : '\\]');
+      if (closes) math = null;
+      continue;
+    }
+    switch (t.type) {
+      case 'math':
+        if (!dropping()) emit('X', t.offset);
+        math = t.delim;
+        break;
+      case 'begin':
+        if (MATH_ENVS.test(t.env)) { emit(' X ', t.offset); skipEnv = { env: t.env, depth: 1 }; }
+        else if (SKIP_ENVS.test(t.env)) { emit('\n\n', t.offset); skipEnv = { env: t.env, depth: 1 }; }
+        else emit('\n\n', t.offset);
+        argMode = null;
+        break;
+      case 'end':
+      case 'par':
+      case 'verbatim':
+        emit('\n\n', t.offset);
+        break;
+      case 'comment':
+        break;
+      case 'command': {
+        const name = t.name.replace(/\*$/, '');
+        if (DROP_ARG.test(name)) argMode = 'drop';
+        else if (NOUN_ARG.test(name)) { if (!dropping()) emit('X', t.offset); argMode = 'noun'; }
+        else if (BREAK_ARG.test(name)) { emit('\n\n', t.offset); argMode = 'break'; }
+        else if (t.name === 'item') emit('\n\n', t.offset);
+        else if (t.name === '\\' || t.name === ' ' || t.name === 'newline') emit(' ', t.offset);
+        else if (/^[%&_#$]$/.test(t.name) && !dropping()) emit(t.name, t.offset);
+        break;
+      }
+      case 'open':
+        depth++;
+        if (argMode) { groups.push({ depth, mode: argMode }); argMode = null; }
+        break;
+      case 'close':
+        if (groups.length && groups[groups.length - 1].depth === depth) {
+          if (groups.pop()!.mode === 'break') emit('\n\n', t.offset);
+        }
+        depth = Math.max(0, depth - 1);
+        break;
+      case 'text': {
+        let s = latex.slice(t.offset, t.offset + t.length);
+        let at = t.offset;
+        // Optional arguments ([width=…], [Section]) between a command and its group
+        if (argMode) {
+          const opt = s.match(/^\s*\*?\s*(\[[^\]]*\]\s*)*/)![0];
+          s = s.slice(opt.length);
+          at += opt.length;
+          if (s.trim()) argMode = null; // no group follows: the command took no argument
+        }
+        if (dropping() || !s) break;
+        for (let i = 0; i < s.length; i++) emit(s[i] === '~' ? ' ' : s[i], at + i);
+        break;
+      }
+    }
+  }
+  return { text: out.join(''), offsets };
+}
+
+// --- Sentences, words, syllables
+type Span = { text: string; from: number; to: number }; // prose offsets
+
+function paragraphsOf(prose: string): Span[] {
+  const spans: Span[] = [];
+  for (const m of prose.matchAll(/[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g)) {
+    if (m[0].trim()) spans.push({ text: m[0], from: m.index!, to: m.index! + m[0].length });
+  }
+  return spans;
+}
+
+// Split at . ! ? followed by a capital, a digit or the end; "e.g.", "et al." and "Fig." do not end a sentence
+function sentencesOf(par: Span): Span[] {
+  const spans: Span[] = [];
+  const text = par.text;
+  const push = (from: number, to: number) => {
+    if (text.slice(from, to).trim()) spans.push({ text: text.slice(from, to), from: par.from + from, to: par.from + to });
+  };
+  let start = 0;
+  for (const m of text.matchAll(/[.!?]+(?=\s+[A-Z0-9(]|\s*$)/g)) {
+    const end = m.index! + m[0].length;
+    if (/(?:\be\.g|\bi\.e|\bet al|\bfig|\beq|\bcf|\bvs|\bsec|\bno)\.$/i.test(text.slice(Math.max(start, end - 7), end))) continue;
+    push(start, end);
+    start = end;
+  }
+  push(start, text.length);
+  return spans;
+}
+
+const WORD = /[A-Za-z][A-Za-z'’-]*/g;
+
+function wordsOf(s: string): string[] {
+  return s.match(WORD) ?? [];
+}
+
+function syllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+function readabilityOf(words: string[], sentences: number): Readability {
+  const n = words.length;
+  const s = Math.max(1, sentences);
+  const syl = words.reduce((sum, w) => sum + syllables(w), 0);
+  const wps = n / s;
+  const spw = n ? syl / n : 0;
+  return {
+    words: n,
+    sentences,
+    wordsPerSentence: Math.round(wps * 10) / 10,
+    readingEase: n ? Math.round(206.835 - 1.015 * wps - 84.6 * spw) : 0,
+    grade: n ? Math.round((0.39 * wps + 11.8 * spw - 15.59) * 10) / 10 : 0,
+  };
+}
+
+// --- Rules
+const HEDGES = [
+  'very', 'quite', 'fairly', 'rather', 'somewhat', 'really', 'extremely', 'relatively', 'arguably', 'clearly',
+  'obviously', 'basically', 'essentially', 'actually', 'literally', 'simply', 'perhaps', 'possibly', 'probably',
+  'seemingly', 'various', 'several', 'many', 'numerous', 'huge', 'tiny', 'interestingly', 'surprisingly',
+  'it is believed', 'it is thought', 'it seems', 'it appears', 'a number of', 'to some extent', 'in some sense',
+];
+
+const IRREGULAR_PARTICIPLES = 'known|shown|given|seen|done|made|taken|written|found|built|chosen|driven|drawn|held|kept|left|lost|'
+  + 'meant|paid|put|run|said|sent|set|spent|taught|thought|told|understood|begun|broken|brought|caught|felt|forgotten|'
+  + 'grown|hidden|led|proven|sold|spoken|struck|thrown|worn|laid|read|bound|fed|met|shed|split|spread|won';
+const PASSIVE = new RegExp(`\\b(?:am|is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES})\\b`, 'gi');
+
+// Written in capitals, 2–6 letters (a trailing "s" for plurals), not Roman numerals
+const ACRONYM = /\b([A-Z][A-Z0-9]{1,5})s?\b/g;
+const COMMON_ACRONYMS = new Set(['I', 'OK', 'US', 'USA', 'UK', 'EU', 'UN', 'PDF', 'URL', 'HTML', 'HTTP', 'PhD', 'ID', 'TV', 'DNA', 'RNA', 'CPU', 'GPU', 'API', 'AI', 'PC', 'IT', 'CEO', 'LaTeX', 'TODO', 'NB', 'AM', 'PM']);
+const ROMAN = /^[IVXLCDM]+$/;
+
+function excerptOf(s: string, max = 80): string {
+  const t = s.replace(/\s+/g, ' ').trim();
+  return t.length > max ? `${t.slice(0, max - 1)}…` : t;
+}
+
+export function lintStyle(latex: string, config: StyleLintConfig = DEFAULT_STYLE_LINT): StyleReport {
+  const prose = latexProse(latex);
+  const lineAt = lineFinder(latex);
+  const issues: Omit<StyleIssue, 'line'>[] = [];
+  const src = (from: number, to: number) => ({
+    from: prose.offsets[from] ?? 0,
+    to: (prose.offsets[Math.max(from, to - 1)] ?? 0) + 1,
+  });
+  const add = (rule: StyleRuleId, from: number, to: number, message: string) => {
+    if (config.rules[rule] !== false) issues.push({ rule, message, excerpt: excerptOf(prose.text.slice(from, to)), ...src(from, to) });
+  };
+
+  const allWords: string[] = [];
+  let sentenceCount = 0;
+  for (const par of paragraphsOf(prose.text)) {
+    const sentences = sentencesOf(par);
+    const parWords: string[] = [];
+    for (const s of sentences) {
+      const words = wordsOf(s.text);
+      parWords.push(...words);
+      if (words.length > config.maxSentenceWords) add('long-sentence', s.from, s.to, `Sentence has ${words.length} words (limit ${config.maxSentenceWords}); consider splitting it`);
+    }
+    sentenceCount += sentences.length;
+    allWords.push(...parWords);
+    if (parWords.length >= 40) {
+      const r = readabilityOf(parWords, sentences.length);
+      if (r.grade > config.maxParagraphGrade) add('hard-paragraph', par.from, par.to, `Paragraph reads at grade ${r.grade} (limit ${config.maxParagraphGrade}); shorter sentences and words help`);
+    }
+  }
+
+  for (const m of prose.text.matchAll(PASSIVE)) {
+    add('passive', m.index!, m.index! + m[0].length, `Passive voice: "${m[0]}"; say who does it if that matters`);
+  }
+  const hedges = [...HEDGES, ...config.extraHedges.map(h => h.trim().toLowerCase()).filter(Boolean)];
+  const hedgeRe = new RegExp(`\\b(?:${hedges.map(escapeRegExp).join('|')})\\b`, 'gi');
+  for (const m of prose.text.matchAll(hedgeRe)) {
+    add('hedge', m.index!, m.index! + m[0].length, `Hedge/weasel word "${m[0]}": be specific or drop it`);
+  }
+  for (const m of prose.text.matchAll(/\b([A-Za-z]+)\s+\1\b/gi)) {
+    if (!/^(that|had)$/i.test(m[1])) add('repeated-word', m.index!, m.index! + m[0].length, `Repeated word "${m[1]}"`);
+  }
+
+  // An acronym is defined by "long form (ACR)" or "ACR (long form)"; report the first use before that
+  const known = new Set([...COMMON_ACRONYMS, ...config.knownAcronyms.map(a => a.trim())]);
+  const firstUse = new Map<string, number>();
+  const definedAt = new Map<string, number>();
+  for (const m of prose.text.matchAll(ACRONYM)) {
+    const acr = m[1];
+    if (known.has(acr) || ROMAN.test(acr) || acr === 'X') continue;
+    const before = prose.text.slice(Math.max(0, m.index! - 1), m.index!);
+    const after = prose.text.slice(m.index! + m[0].length, m.index! + m[0].length + 2);
+    if ((before === '(' && after.startsWith(')')) || /^\s\(/.test(after)) {
+      if (!definedAt.has(acr)) definedAt.set(acr, m.index!);
+    }
+    if (!firstUse.has(acr)) firstUse.set(acr, m.index!);
+  }
+  for (const [acr, at] of firstUse) {
+    const def = definedAt.get(acr);
+    if (def === at) continue;
+    const end = at + acr.length;
+    if (def === undefined) add('undefined-acronym', at, end, `Acronym ${acr} is never spelled out; define it on first use`);
+    else add('undefined-acronym', at, end, `Acronym ${acr} is used before it is defined (line ${lineAt(prose.offsets[def])})`);
+  }
+
+  issues.sort((a, b) => a.from - b.from);
+  return {
+    issues: issues.map(i => ({ ...i, line: lineAt(i.from) })),
+    readability: readabilityOf(allWords, sentenceCount),
+  };
+}
+
+// Short hint lines for the coach prompt (line numbers shifted by `startLine` for a chunk)
+export function styleHints(latex: string, config: StyleLintConfig = DEFAULT_STYLE_LINT, startLine = 1, limit = 8): string {
+  const { issues, readability } = lintStyle(latex, config);
+  const lines = issues.slice(0, limit).map(i => `- line ${i.line + startLine - 1}: ${i.message}`);
+  if (issues.length > limit) lines.push(`- … and ${issues.length - limit} more`);
+  if (readability.words >= 60) lines.push(`- Readability: Flesch ${readability.readingEase}, grade ${readability.grade}, ${readability.wordsPerSentence} words/sentence`);
+  return lines.join('\n');
+}
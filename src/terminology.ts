@@ -0,0 +1,165 @@
+// WriteTank — Terminology and spelling consistency (no model involved)
+// - Builds a term inventory from the prose of all given files (LaTeX stripped, lines kept)
+// - Clusters variants of one term: "data set" / "data-set" / "dataset", British vs American
+//   spelling, capitalization of the same word mid-sentence, "e.g." vs "e.g.,"
+// - Only clusters with two or more forms in use are reported (or a form that is not the
+//   chosen one); the chosen forms make up the project's style sheet, which the background
+//   also adds to the Q&A and coach prompts
+
+import { latexProse } from './style-lint.ts';
+import { lineFinder } from './text.ts';
+
+export type TermKind = 'compound' | 'spelling' | 'capitalization' | 'punctuation';
+
+export type TermLocation = { path: string; line: number };
+
+export type TermVariant = {
+  form: string;
+  count: number;
+  locations: TermLocation[]; // the first MAX_LOCATIONS uses
+};
+
+export type TermCluster = {
+  id: string;        // kind + normalized key, e.g. "compound:dataset"
+  kind: TermKind;
+  variants: TermVariant[]; // most used first
+  canonical?: string;      // chosen form from the style sheet
+};
+
+export type TermSheetEntry = { canonical: string; variants: string[] };
+export type TermSheet = Record<string, TermSheetEntry>; // by cluster id
+
+export type TermReport = { clusters: TermCluster[]; words: number; files: number };
+
+const MAX_LOCATIONS = 20;
+const MAX_CLUSTERS = 100;
+
+export function termSheetKey(projectId: string) {
+  return `wt:terms:${projectId}`;
+}
+
+// --- Spelling variants
+// Rules only ever pair two forms that both occur in the text, so "precise"/"precize" cannot match
+const LL_STEMS = /^(model|label|travel|cancel|signal|level|fuel|tunnel|channel|total|dial|equal|funnel|marvel|rival|counsel)l(ed|ing|er|ers)$/;
+const SPELLING_WORDS: Record<string, string> = {
+  programme: 'program', programmes: 'programs', judgement: 'judgment', acknowledgement: 'acknowledgment',
+  ageing: 'aging', grey: 'gray', defence: 'defense', licence: 'license', offence: 'offense', aluminium: 'aluminum',
+};
+
+export function americanSpelling(word: string): string {
+  const w = word.toLowerCase();
+  if (SPELLING_WORDS[w]) return SPELLING_WORDS[w];
+  const ll = w.match(LL_STEMS);
+  if (ll) return `${ll[1]}${ll[2]}`;
+  return w
+    .replace(/isation(s?)$/, 'ization$1')
+    .replace(/is(e|es|ed|ing|er|ers)$/, 'iz$1')
+    .replace(/ys(e|es|ed|ing)$/, 'yz$1')
+    .replace(/(?<=^.{3,})our(s|ed|ing|ite|ites|able)?$/, 'or$1')
+    .replace(/(?<=^.{2,})tre(s?)$/, 'ter$1')
+    .replace(/(?<=^.{3,})ogue(s?)$/, 'og$1');
+}
+
+// --- Inventory
+type Occurrences = Map<string, { count: number; locations: TermLocation[] }>; // form → uses
+type Table = Map<string, { kind: TermKind; forms: Occurrences }>;              // cluster id → forms
+
+// Pairs with these words are ordinary phrases ("in to" vs "into", "may be" vs "maybe")
+const PHRASE_WORDS = new Set(['a', 'an', 'the', 'in', 'to', 'on', 'of', 'at', 'by', 'for', 'is', 'it', 'be', 'as', 'or', 'and', 'no', 'so', 'up', 'we', 'any', 'some', 'every']);
+
+function record(table: Table, id: string, kind: TermKind, form: string, loc: TermLocation) {
+  let cluster = table.get(id);
+  if (!cluster) table.set(id, cluster = { kind, forms: new Map() });
+  let uses = cluster.forms.get(form);
+  if (!uses) cluster.forms.set(form, uses = { count: 0, locations: [] });
+  uses.count++;
+  if (uses.locations.length < MAX_LOCATIONS) uses.locations.push(loc);
+}
+
+type Word = { text: string; at: number; end: number; initial: boolean; loc: TermLocation };
+
+// Words of a file's prose. Sentence starts and short unpunctuated lines (headings, captions,
+// list items) are marked initial: their capitals say nothing about the term.
+function wordsOf(path: string, text: string) {
+  const prose = latexProse(text);
+  const lineAt = lineFinder(text);
+  const words: Word[] = [];
+  for (const par of prose.text.matchAll(/[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g)) {
+    const parWords = Array.from(par[0].matchAll(/[A-Za-z][A-Za-z'’-]*[A-Za-z]|[A-Za-z]/g));
+    const heading = parWords.length < 10 && !/[.!?:]\s*$/.test(par[0]);
+    for (const m of parWords) {
+      const at = par.index! + m.index!;
+      const initial = heading || /^\s*$/.test(par[0].slice(0, m.index!)) || /(?:[.!?:]\s+|\(\s*)$/.test(par[0].slice(Math.max(0, m.index! - 4), m.index!));
+      words.push({ text: m[0], at, end: at + m[0].length, initial, loc: { path, line: lineAt(prose.offsets[at] ?? 0) } });
+    }
+  }
+  return { words, prose: prose.text, line: (proseOffset: number) => lineAt(prose.offsets[proseOffset] ?? 0) };
+}
+
+export function analyzeTerms(files: { path: string; text: string }[], sheet: TermSheet = {}): TermReport {
+  const table: Table = new Map();
+  const perFile = files.map(f => ({ path: f.path, ...wordsOf(f.path, f.text) }));
+  const vocabulary = new Set(perFile.flatMap(f => f.words.map(w => w.text.toLowerCase())));
+  let wordCount = 0;
+
+  for (const f of perFile) {
+    const { words } = f;
+    wordCount += words.length;
+    for (let i = 0; i < words.length; i++) {
+      const w = words[i];
+      const lower = w.text.toLowerCase();
+      // Compounds: "dataset", "data-set" and "data set" share the key "dataset"
+      if (lower.includes('-')) record(table, `compound:${lower.replace(/-/g, '')}`, 'compound', lower, w.loc);
+      else if (lower.length >= 4) record(table, `compound:${lower}`, 'compound', lower, w.loc);
+      const next = words[i + 1];
+      if (next && next.at === w.end + 1 && !PHRASE_WORDS.has(lower) && !PHRASE_WORDS.has(next.text.toLowerCase())) {
+        const joined = `${lower}${next.text.toLowerCase()}`;
+        if (vocabulary.has(joined) || vocabulary.has(`${lower}-${next.text.toLowerCase()}`)) {
+          record(table, `compound:${joined.replace(/-/g, '')}`, 'compound', `${lower} ${next.text.toLowerCase()}`, w.loc);
+        }
+      }
+      // Spelling: British and American forms share the American key
+      const american = americanSpelling(lower);
+      if (american !== lower && vocabulary.has(american)) record(table, `spelling:${american}`, 'spelling', lower, w.loc);
+      else if (lower.length >= 4) record(table, `spelling:${lower}`, 'spelling', lower, w.loc);
+      // Capitalization, mid-sentence only ("Transformer" vs "transformer")
+      if (!w.initial && lower.length >= 3) record(table, `capitalization:${lower}`, 'capitalization', w.text, w.loc);
+    }
+    // Abbreviations followed by a comma or not
+    for (const m of f.prose.matchAll(/\b(e\.g|i\.e)\.(,?)|\bet al(\.?)/gi)) {
+      const base = m[1] ? `${m[1].toLowerCase()}.` : 'et al';
+      const form = m[1] ? `${base}${m[2]}` : `et al${m[3]}`;
+      record(table, `punctuation:${base}`, 'punctuation', form, { path: f.path, line: f.line(m.index!) });
+    }
+  }
+
+  const clusters: TermCluster[] = [];
+  for (const [id, { kind, forms }] of table) {
+    const canonical = sheet[id]?.canonical;
+    const distinct = kind === 'capitalization' ? forms.size : new Set([...forms.keys()].map(f => f.toLowerCase())).size;
+    if (distinct < 2 && !(canonical && forms.size && !forms.has(canonical))) continue;
+    const variants = [...forms].map(([form, uses]) => ({ form, count: uses.count, locations: uses.locations }))
+      .sort((a, b) => b.count - a.count);
+    clusters.push({ id, kind, variants, ...(canonical ? { canonical } : {}) });
+  }
+  const total = (c: TermCluster) => c.variants.reduce((n, v) => n + v.count, 0);
+  clusters.sort((a, b) => total(b) - total(a));
+  return { clusters: clusters.slice(0, MAX_CLUSTERS), words: wordCount, files: files.length };
+}
+
+// Uses of forms other than the chosen one (0 when no form is chosen)
+export function offCanonicalUses(cluster: TermCluster): number {
+  if (!cluster.canonical) return 0;
+  return cluster.variants.filter(v => v.form !== cluster.canonical).reduce((n, v) => n + v.count, 0);
+}
+
+// One system-prompt line listing the chosen forms, so answers and coach reports follow them
+export function termSheetPrompt(sheet: TermSheet): string {
+  const entries = Object.values(sheet).filter(e => e.canonical);
+  if (!entries.length) return '';
+  const forms = entries.slice(0, 40).map(e => {
+    const others = e.variants.filter(v => v !== e.canonical);
+    return others.length ? `"${e.canonical}" (not ${others.map(v => `"${v}"`).join(', ')})` : `"${e.canonical}"`;
+  });
+  return `- Use the project's preferred terms and spellings exactly: ${forms.join('; ')}.`;
+}
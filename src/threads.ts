@@ -0,0 +1,61 @@
+// WriteTank — Multi-turn Q&A threads
+// - Threads are stored per document (project id + file path) by the background
+// - Pure helpers for naming threads and turning them into chat `messages`
+
+import type { ChatMessage } from './providers.ts';
+import type { DocRef } from './project.ts';
+import type { RetrievedSource } from './retrieval.ts';
+import type { LatexReport } from './latex-check.ts';
+import type { CitationReport } from './bibtex.ts';
+
+export type QaTurn = {
+  question: string; // what the user typed
+  prompt: string;   // the user message actually sent (question plus context)
+  answer: string;
+  sources: RetrievedSource[];
+  check?: LatexReport; // validator report for `answer`
+  citations?: CitationReport; // suggested keys / unknown keys for `answer`
+  at: number;
+};
+
+export type QaThread = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  turns: QaTurn[];
+};
+
+// Listing entry sent to the panel (no turn bodies)
+export type QaThreadInfo = { id: string; title: string; updatedAt: number; turns: number };
+
+// Older turns beyond this are dropped from the prompt (the first turn is always kept)
+export const MAX_HISTORY_TURNS = 6;
+
+export function threadsKey(doc: DocRef) {
+  return `wt:threads:${doc.projectId}:${doc.path}`;
+}
+
+export function newThreadId(): string {
+  return `t${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function titleFromQuestion(q: string): string {
+  const t = q.replace(/\s+/g, ' ').trim();
+  return t.length > 60 ? t.slice(0, 57) + '…' : t || 'Untitled thread';
+}
+
+// Prior turns as alternating user/assistant messages. The first turn keeps its full
+// prompt because it carries the context the thread is about; later turns send only
+// the question so follow-ups ("shorter", "now as a table") stay cheap.
+export function threadHistory(thread: QaThread): ChatMessage[] {
+  const turns = thread.turns;
+  const recent = turns.slice(Math.max(1, turns.length - (MAX_HISTORY_TURNS - 1)));
+  const picked = turns.length ? [turns[0], ...recent] : [];
+  const out: ChatMessage[] = [];
+  picked.forEach((t, i) => {
+    out.push({ role: 'user', content: i === 0 ? t.prompt : t.question });
+    out.push({ role: 'assistant', content: t.answer });
+  });
+  return out;
+}
@@ -0,0 +1,47 @@
+// WriteTank — Minimal ZIP reader
+// - Enough to unpack Overleaf's project download (stored or deflated entries)
+// - Uses the browser's DecompressionStream; no third-party code
+
+export type ZipEntry = { name: string; text: string };
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Read the text entries whose names pass `keep`; sizes come from the central directory
+// because local headers may defer them to a data descriptor.
+export async function unzipText(buf: ArrayBuffer, keep: (name: string) => boolean): Promise<ZipEntry[]> {
+  const view = new DataView(buf);
+  const bytes = new Uint8Array(buf);
+  let eocd = -1;
+  for (let i = buf.byteLength - 22; i >= Math.max(0, buf.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIG) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive');
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const out: ZipEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(p, true) !== CENTRAL_SIG) throw new Error('Corrupt zip directory');
+    const method = view.getUint16(p + 10, true);
+    const compSize = view.getUint32(p + 20, true);
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    const local = view.getUint32(p + 42, true);
+    const name = decoder.decode(bytes.subarray(p + 46, p + 46 + nameLen));
+    p += 46 + nameLen + extraLen + commentLen;
+    if (name.endsWith('/') || !keep(name)) continue;
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + compSize);
+    if (method === 0) out.push({ name, text: decoder.decode(data) });
+    else if (method === 8) out.push({ name, text: decoder.decode(await inflateRaw(data)) });
+    // other methods (e.g. deflate64) are skipped
+  }
+  return out;
+}